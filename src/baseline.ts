@@ -0,0 +1,53 @@
+/**
+ * Local baselines for npm-needs-publish
+ *
+ * A baseline replaces the registry version as the comparison target:
+ * - a tarball (.tgz), e.g. the archived output of the last `npm pack`
+ * - an unpacked directory, either the package contents or an extracted
+ *   tarball that still has its `package/` folder, packed with the same
+ *   rules as the local package
+ */
+
+import fs from 'fs';
+import Module from 'module';
+import path from 'path';
+
+const _require = typeof require === 'undefined' ? Module.createRequire(import.meta.url) : require;
+
+/**
+ * Read a baseline as a gzipped tarball
+ *
+ * @param baselinePath - Path to a .tgz file or an unpacked directory
+ * @returns Tarball whose entries are prefixed with `package/`, like `npm pack` output
+ */
+export async function readBaselineTarball(baselinePath: string): Promise<Buffer> {
+  if (!fs.existsSync(baselinePath)) throw new Error(`Baseline not found: ${baselinePath}`);
+  if (!fs.statSync(baselinePath).isDirectory()) return fs.readFileSync(baselinePath);
+
+  // An extracted tarball keeps its contents under package/
+  const nested = path.join(baselinePath, 'package');
+  const dir = !fs.existsSync(path.join(baselinePath, 'package.json')) && fs.existsSync(path.join(nested, 'package.json')) ? nested : baselinePath;
+  if (!fs.existsSync(path.join(dir, 'package.json'))) throw new Error(`Baseline directory has no package.json: ${baselinePath}`);
+
+  // Without lifecycle scripts: an archived release has nothing to build
+  return packDirectory(dir, { ignoreScripts: true });
+}
+
+/**
+ * Pack a package directory the way npm pack does (files, .npmignore and npm-packlist rules,
+ * so node_modules, .git and other unpublished files are left out)
+ *
+ * @param options - pacote options, e.g. ignoreScripts to skip the prepare script
+ */
+export async function packDirectory(dir: string, options: Record<string, unknown> = {}): Promise<Buffer> {
+  const pacote = _require('pacote');
+  const Arborist = _require('@npmcli/arborist');
+  const npa = _require('npm-package-arg');
+
+  const manifest = await pacote.manifest(npa(dir), { Arborist, ...options });
+  return pacote.tarball(manifest._resolved, {
+    Arborist,
+    ...options,
+    integrity: manifest._integrity,
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * Local registry cache for npm-needs-publish
+ *
+ * Registry tarballs are content-addressed by their `dist.integrity` and verified
+ * on read, so a cached tarball never needs revalidating. Packuments are stored per
+ * registry and package name and refreshed on every online run.
+ *
+ * The cache is only used when a cache directory is configured or in offline mode,
+ * where every registry request must be answered from it.
+ *
+ * Layout:
+ *   <cacheDir>/content/<algorithm>/<hex digest>
+ *   <cacheDir>/packuments/<sha256 of registry and name>.json
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mkdirpSync } from './fs-compat.ts';
+import type { PackageJson, Packument } from './types.ts';
+
+/**
+ * Cache directory used in offline mode when none is configured
+ */
+export const DEFAULT_CACHE_DIR = path.join(os.homedir(), '.cache', 'npm-needs-publish');
+
+/**
+ * Error for a registry request that offline mode cannot answer from the cache
+ */
+export function createNotCachedError(message: string): Error {
+  const error = new Error(`${message} (offline mode)`) as Error & { code?: string };
+  error.code = 'ENOTCACHED';
+  return error;
+}
+
+/**
+ * Integrity of a published tarball (legacy packages only have a sha1 shasum)
+ *
+ * @returns Subresource integrity string, or undefined if the registry provides neither
+ */
+export function getIntegrity(dist: PackageJson['dist']): string | undefined {
+  if (!dist) return undefined;
+  if (dist.integrity) return dist.integrity;
+  if (dist.shasum) return `sha1-${Buffer.from(dist.shasum, 'hex').toString('base64')}`;
+  return undefined;
+}
+
+/**
+ * Split the first hash of an integrity string into algorithm and hex digest
+ */
+function parseIntegrity(integrity: string): { algorithm: string; digest: string } | undefined {
+  const hash = integrity.trim().split(/\s+/)[0];
+  const dashIndex = hash.indexOf('-');
+  if (dashIndex <= 0) return undefined;
+
+  const algorithm = hash.slice(0, dashIndex);
+  const digest = Buffer.from(hash.slice(dashIndex + 1).split('?')[0], 'base64').toString('hex');
+  return digest ? { algorithm, digest } : undefined;
+}
+
+function tarballPath(cacheDir: string, integrity: string): string | undefined {
+  const parsed = parseIntegrity(integrity);
+  return parsed ? path.join(cacheDir, 'content', parsed.algorithm, parsed.digest) : undefined;
+}
+
+function packumentPath(cacheDir: string, registry: string, name: string): string {
+  const key = crypto.createHash('sha256').update(`${registry}\n${name}`).digest('hex');
+  return path.join(cacheDir, 'packuments', `${key}.json`);
+}
+
+/**
+ * Read a cached tarball, verifying it against its integrity
+ *
+ * @returns Tarball contents, or undefined when missing or corrupt
+ */
+export function readCachedTarball(cacheDir: string, integrity: string): Buffer | undefined {
+  const parsed = parseIntegrity(integrity);
+  const filePath = tarballPath(cacheDir, integrity);
+  if (!parsed || !filePath || !fs.existsSync(filePath)) return undefined;
+
+  const data = fs.readFileSync(filePath);
+  try {
+    if (crypto.createHash(parsed.algorithm).update(data).digest('hex') !== parsed.digest) return undefined;
+  } catch {
+    // Unsupported hash algorithm
+    return undefined;
+  }
+  return data;
+}
+
+/**
+ * Store a tarball under its integrity (best effort: the cache is never required online)
+ */
+export function writeCachedTarball(cacheDir: string, integrity: string, data: Buffer): void {
+  const filePath = tarballPath(cacheDir, integrity);
+  if (!filePath) return;
+
+  try {
+    mkdirpSync(path.dirname(filePath));
+    fs.writeFileSync(filePath, data);
+  } catch {
+    // Read-only or unavailable cache directory
+  }
+}
+
+/**
+ * Read a cached packument
+ *
+ * @returns Packument, or undefined when missing or unreadable
+ */
+export function readCachedPackument(cacheDir: string, registry: string, name: string): Packument | undefined {
+  const filePath = packumentPath(cacheDir, registry, name);
+  if (!fs.existsSync(filePath)) return undefined;
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Store a packument (best effort: the cache is never required online)
+ */
+export function writeCachedPackument(cacheDir: string, registry: string, name: string, packument: Packument): void {
+  const filePath = packumentPath(cacheDir, registry, name);
+
+  try {
+    mkdirpSync(path.dirname(filePath));
+    fs.writeFileSync(filePath, JSON.stringify(packument));
+  } catch {
+    // Read-only or unavailable cache directory
+  }
+}
@@ -4,11 +4,15 @@
  * Usage:
  *   npm-needs-publish [options]
  *   nnp [options]
+ *   nnp bump [options]
  *
- * Exit codes:
+ * Exit codes (with --workspaces: 5 if any package has missing entry points, else 3 if any is blocked, else 4 if any is undetermined, else 1 if any needs publishing):
  *   0 - Package does NOT need publishing
  *   1 - Package NEEDS publishing
  *   2 - Error occurred
+ *   3 - Package changed but its version is already published
+ *   4 - Could not determine (registry or packing error with --on-error unknown)
+ *   5 - Entry points missing from the packed package (--validate-entry-points)
  */
 
 import { readFileSync } from 'fs';
@@ -16,7 +20,10 @@ import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
 import { parseArgs } from 'util';
 import { needsPublish } from './needs-publish.ts';
-import type { NeedsPublishOptions, NeedsPublishResult } from './types.ts';
+import type { ChangeDetail, NeedsPublishOptions, NeedsPublishResult, WorkspaceResult } from './types.ts';
+import { needsPublishWorkspaces } from './workspaces.ts';
+
+const ON_ERROR_MODES = ['assume-changed', 'unknown', 'throw'];
 
 const __dirname = dirname(typeof __filename !== 'undefined' ? __filename : fileURLToPath(import.meta.url));
 
@@ -30,26 +37,48 @@ function showHelp(): void {
   console.log(`
 npm-needs-publish - Smart publish detection for npm packages
 
-Usage: npm-needs-publish [options]
-       nnp [options]
+Usage: npm-needs-publish [options] [path]
+       nnp [options] [path]
+       nnp bump [options] [path]
 
 Determine if a package needs to be published based on semantic comparison
 of package.json fields and content changes.
 
+Commands:
+  bump                   Print the recommended semver bump (major, minor, patch, none; unknown and a
+                         non-zero exit when the contents were not compared)
+
 Options:
   --help, -h             Show this help message
   --version, -V          Show version number
   --cwd <path>           Working directory (default: current directory)
-  --registry <url>       Registry URL override
+  --registry <url>       Registry URL override (default: publishConfig.registry, then .npmrc)
+  --tag <name>           Compare against this dist-tag (default: publishConfig.tag, then latest)
+  --compare-to <version> Compare against an exact registry version (not with --workspaces)
+  --against <path>       Compare against a local .tgz or unpacked directory instead of the registry (relative to --cwd; bin script mode changes only count here)
   --json                 Output result as JSON
   --verbose, -v          Show detailed change breakdown
+  --diff                 Show a line diff of each changed text file
   --package-json-only    Only compare package.json, skip file comparison
+  --ignore-files <glob>  Treat changes to matching files as informational (repeatable, e.g. '*.map')
+  --normalize-text       Ignore BOM, line ending (CRLF/LF) and trailing whitespace/newline differences
+  --normalize-json       Ignore key order and formatting differences in .json files
+  --no-compare-declarations  Byte-compare .d.ts files instead of comparing their exported API
+  --normalize-lines <preset>  Ignore build-stamp lines (repeatable): banner-timestamp, source-mapping-url
   --no-optional-deps     Exclude optionalDependencies from comparison
+  --validate-entry-points  Fail (exit 5) when main/module/types/bin/exports targets are missing from the packed package
+  --workspaces           Check every non-private workspace package (npm/yarn workspaces, pnpm-workspace.yaml)
+  --cache-dir <path>     Cache registry packuments and tarballs in this directory (default: no cache; ~/.cache/npm-needs-publish with --offline)
+  --offline              Answer registry requests from the cache only (error if an entry is missing)
+  --on-error <mode>      Registry/packing errors: assume-changed (default), unknown (exit 4) or throw (exit 2)
 
-Exit codes:
+Exit codes (with --workspaces: 5 if any package has missing entry points, else 3 if any is blocked, else 4 if any is undetermined, else 1 if any needs publishing):
   0 - Package does NOT need publishing
   1 - Package NEEDS publishing
   2 - Error occurred
+  3 - Package changed but its version is already published (bump the version)
+  4 - Could not determine whether the package needs publishing (--on-error unknown)
+  5 - Entry points are missing from the packed package, e.g. the build did not run (--validate-entry-points)
 
 Examples:
   # Check if current directory needs publishing
@@ -61,15 +90,42 @@ Examples:
   # Check specific directory with verbose output
   npm-needs-publish --cwd ./packages/my-package --verbose
 
+  # Compare a prerelease against the "next" dist-tag
+  npm-needs-publish --tag next
+
+  # Ignore source maps and the changelog
+  nnp --ignore-files '*.map' --ignore-files CHANGELOG.md
+
   # Skip optionalDependencies comparison
   npm-needs-publish --no-optional-deps
+
+  # Print the recommended version bump
+  nnp bump
+
+  # Show what changed in each file
+  nnp --diff
+
+  # Compare against an archived tarball of the last release
+  nnp --against ./artifacts/my-package-1.2.3.tgz
+
+  # Check every package in a monorepo
+  nnp --workspaces
+
+  # Check without network access, using tarballs cached by an earlier run
+  nnp --offline --cache-dir .cache/nnp
 `);
 }
 
-function formatResult(result: NeedsPublishResult, verbose: boolean): string {
+function formatResult(result: NeedsPublishResult, verbose: boolean, showDiffs = false): string {
   const lines: string[] = [];
 
-  if (result.needsPublish) {
+  if (result.status === 'unknown') {
+    lines.push('? Could not determine whether the package needs publishing');
+    lines.push(`  Reason: ${result.reason}${result.errorCode ? ` (${result.errorCode})` : ''}`);
+  } else if (result.blocked === 'version-exists') {
+    lines.push('! Package changed but its version is already published (bump the version)');
+    lines.push(`  Reason: ${result.reason}`);
+  } else if (result.needsPublish) {
     lines.push('✓ Package NEEDS publishing');
     lines.push(`  Reason: ${result.reason}`);
   } else {
@@ -77,7 +133,13 @@ function formatResult(result: NeedsPublishResult, verbose: boolean): string {
     lines.push(`  Reason: ${result.reason}`);
   }
 
-  if (verbose && result.changes && result.changes.length > 0) {
+  if (result.errors && result.errors.length > 0) {
+    lines.push('');
+    lines.push('Missing entry points:');
+    for (const error of result.errors) lines.push(`  [!] ${error.message}`);
+  }
+
+  if ((verbose || showDiffs) && result.changes && result.changes.length > 0) {
     lines.push('');
     lines.push('Changes detected:');
     for (const change of result.changes) {
@@ -85,6 +147,8 @@ function formatResult(result: NeedsPublishResult, verbose: boolean): string {
 
       if (change.type === 'first-publish') {
         lines.push(`  ${icon} First publish`);
+      } else if (change.type === 'dist-tag-missing') {
+        lines.push(`  ${icon} Dist-tag ${change.field} not found (first publish under this tag)`);
       } else if (change.type === 'version') {
         lines.push(`  ${icon} Version: ${change.oldValue} -> ${change.newValue}`);
       } else if (change.type === 'dependency') {
@@ -92,14 +156,88 @@ function formatResult(result: NeedsPublishResult, verbose: boolean): string {
       } else if (change.type === 'field') {
         lines.push(`  ${icon} Field ${change.field} changed`);
       } else if (change.type === 'file') {
-        lines.push(`  ${icon} File: ${change.field}`);
+        const normalized = change.normalizations ? ` (equal after normalizing: ${change.normalizations.join(', ')})` : '';
+        const action = change.action === 'renamed' ? ` (renamed from ${change.oldValue})` : change.oldValue !== undefined ? ` (mode ${change.oldValue} -> ${change.newValue})` : '';
+        lines.push(`  ${icon} File: ${change.field}${action}${normalized}${formatDiffSummary(change)}`);
+      } else if (change.type === 'api') {
+        const action = change.oldValue === undefined ? 'added' : change.newValue === undefined ? 'removed' : 'changed';
+        lines.push(`  ${icon} API ${change.field} ${action}`);
+      } else if (change.type === 'dependent') {
+        lines.push(`  ${icon} Dependent ${change.field}: ${change.oldValue} excludes ${change.newValue}`);
       }
     }
+
+    if (showDiffs) lines.push.apply(lines, formatDiffs(result.changes));
+  }
+
+  return lines.join('\n');
+}
+
+function formatDiffSummary(change: ChangeDetail): string {
+  if (!change.diff) return '';
+  if (change.diff.skipped) return ` (${change.diff.skipped === 'binary' ? 'binary' : 'too large to diff'})`;
+  return ` (+${change.diff.linesAdded}, -${change.diff.linesRemoved})`;
+}
+
+function formatDiffs(changes: ChangeDetail[]): string[] {
+  const lines: string[] = [];
+  for (const change of changes) {
+    if (!change.diff || !change.diff.patch) continue;
+    lines.push('');
+    lines.push(change.diff.patch);
+  }
+  return lines;
+}
+
+function getStatus(result: NeedsPublishResult): string {
+  return result.blocked ? 'blocked' : result.status;
+}
+
+function formatWorkspaceResults(results: WorkspaceResult[], verbose: boolean, showDiffs = false): string {
+  const rows = [['Package', 'Version', 'Status', 'Reason']];
+  for (const { name, version, result } of results) {
+    rows.push([name, version, getStatus(result), result.reason]);
+  }
+
+  // Pad every column except the last to its widest cell
+  const widths = rows[0].map((_, column) =>
+    Math.max.apply(
+      null,
+      rows.map((row) => row[column].length)
+    )
+  );
+  const lines = rows.map((row) => row.map((cell, column) => (column < row.length - 1 ? cell + ' '.repeat(widths[column] - cell.length) : cell)).join('  '));
+
+  if (verbose || showDiffs) {
+    for (const { name, version, result } of results) {
+      lines.push('');
+      lines.push(`${name}@${version}`);
+      lines.push(formatResult(result, true, showDiffs));
+    }
   }
 
   return lines.join('\n');
 }
 
+function getExitCode(results: NeedsPublishResult[]): number {
+  if (results.some((result) => result.errors && result.errors.length > 0)) return 5;
+  if (results.some((result) => result.blocked)) return 3;
+  if (results.some((result) => result.status === 'unknown')) return 4;
+  return results.some((result) => result.needsPublish) ? 1 : 0;
+}
+
+/**
+ * Bump printed by the bump command, with its exit code: the recommended level (exit 0, also when
+ * blocked), none for skipped packages, or unknown with the check's exit code when the contents were
+ * not compared (first publish, version already bumped, registry errors: 1, undetermined status: 4)
+ */
+function getBump(result: NeedsPublishResult): { bump: string; exitCode: number } {
+  const exitCode = getExitCode([result]);
+  if (result.recommendedBump && exitCode !== 4 && exitCode !== 5) return { bump: result.recommendedBump, exitCode: 0 };
+  if (exitCode === 0) return { bump: 'none', exitCode };
+  return { bump: result.recommendedBump || 'unknown', exitCode };
+}
+
 export default async function cli(argv: string[]): Promise<void> {
   const { values, positionals } = parseArgs({
     args: argv,
@@ -121,6 +259,15 @@ export default async function cli(argv: string[]): Promise<void> {
       registry: {
         type: 'string',
       },
+      tag: {
+        type: 'string',
+      },
+      'compare-to': {
+        type: 'string',
+      },
+      against: {
+        type: 'string',
+      },
       json: {
         type: 'boolean',
         default: false,
@@ -130,14 +277,56 @@ export default async function cli(argv: string[]): Promise<void> {
         short: 'v',
         default: false,
       },
+      diff: {
+        type: 'boolean',
+        default: false,
+      },
       'package-json-only': {
         type: 'boolean',
         default: false,
       },
+      'ignore-files': {
+        type: 'string',
+        multiple: true,
+      },
+      'normalize-text': {
+        type: 'boolean',
+        default: false,
+      },
+      'normalize-json': {
+        type: 'boolean',
+        default: false,
+      },
+      'no-compare-declarations': {
+        type: 'boolean',
+        default: false,
+      },
+      'validate-entry-points': {
+        type: 'boolean',
+        default: false,
+      },
+      'normalize-lines': {
+        type: 'string',
+        multiple: true,
+      },
       'no-optional-deps': {
         type: 'boolean',
         default: false,
       },
+      workspaces: {
+        type: 'boolean',
+        default: false,
+      },
+      'cache-dir': {
+        type: 'string',
+      },
+      offline: {
+        type: 'boolean',
+        default: false,
+      },
+      'on-error': {
+        type: 'string',
+      },
     },
     allowPositionals: true,
   });
@@ -152,26 +341,69 @@ export default async function cli(argv: string[]): Promise<void> {
     process.exit(0);
   }
 
-  // Use positional argument as cwd if provided
+  // Optional command, then positional argument as cwd if provided
+  const command = positionals[0] === 'bump' ? positionals.shift() : undefined;
   const cwd = positionals[0] || values.cwd || process.cwd();
 
   try {
+    const onError = values['on-error'];
+    if (onError !== undefined && ON_ERROR_MODES.indexOf(onError) < 0) throw new Error(`Invalid --on-error mode: ${onError} (expected ${ON_ERROR_MODES.join(', ')})`);
+
     const options: NeedsPublishOptions = {
       cwd,
       registry: values.registry,
+      distTag: values.tag,
+      compareVersion: values['compare-to'],
+      baseline: values.against,
       packageJsonOnly: values['package-json-only'],
+      ignoreFiles: values['ignore-files'],
+      normalizeText: values['normalize-text'],
+      normalizeJson: values['normalize-json'],
+      lineNormalizers: values['normalize-lines'],
+      compareDeclarations: !values['no-compare-declarations'],
       includeOptionalDeps: !values['no-optional-deps'],
+      cacheDir: values['cache-dir'],
+      offline: values.offline,
+      onError: onError as NeedsPublishOptions['onError'],
+      includeDiffs: values.diff,
+      validateEntryPoints: values['validate-entry-points'],
     };
 
+    if (values.workspaces) {
+      const results = await needsPublishWorkspaces(options);
+
+      if (command === 'bump') {
+        const bumps = results.map(({ name, result }) => ({ name, recommendedBump: getBump(result).bump, reason: result.reason }));
+        console.log(values.json ? JSON.stringify(bumps, null, 2) : bumps.map(({ name, recommendedBump }) => `${name} ${recommendedBump}`).join('\n'));
+        process.exit(getExitCode(results.filter(({ result }) => getBump(result).exitCode !== 0).map(({ result }) => result)));
+      }
+
+      if (values.json) {
+        console.log(JSON.stringify(results, null, 2));
+      } else {
+        console.log(formatWorkspaceResults(results, values.verbose || false, values.diff));
+      }
+
+      process.exit(getExitCode(results.map(({ result }) => result)));
+    }
+
     const result = await needsPublish(options);
 
+    if (command === 'bump') {
+      // The bump is relative to the local version: unknown when it was not compared against it
+      const { bump, exitCode } = getBump(result);
+      console.log(values.json ? JSON.stringify({ recommendedBump: bump, reason: result.reason }, null, 2) : bump);
+      if (!values.json && bump === 'unknown') console.error(result.reason);
+      process.exit(exitCode);
+    }
+
     if (values.json) {
       console.log(JSON.stringify(result, null, 2));
     } else {
-      console.log(formatResult(result, values.verbose || false));
+      console.log(formatResult(result, values.verbose || false, values.diff));
     }
 
-    process.exit(result.needsPublish ? 1 : 0);
+    process.exit(getExitCode([result]));
   } catch (error) {
     if (values.json) {
       console.log(
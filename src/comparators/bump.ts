@@ -0,0 +1,150 @@
+/**
+ * Semver bump recommendation from detected changes
+ *
+ * Bump levels (highest wins):
+ * - major: critical field removed, `name`/`type` changed, exports added or a subpath/condition removed,
+ *          engines narrowed, os/cpu platform dropped, peerDependencies added or tightened,
+ *          declaration export removed, reachable file removed or renamed (the published
+ *          package has no exports, or its main, exports or bin resolve to the file)
+ * - minor: fields, exports subpaths, dependencies or files added;
+ *          other critical field changes; peerDependencies widened or removed;
+ *          declaration exports added or changed (additive and breaking signature
+ *          changes are not told apart)
+ * - patch: files modified, unreachable files removed or renamed, bin script modes changed,
+ *          exports subpaths retargeted, imports changed, other dependency and significant field changes
+ * - none: only informational changes (including ignored files)
+ */
+
+import type { ApiChange, BumpChanges, BumpLevel, DependencyChange, FieldChange, FileChange, PackageJson } from '../types.ts';
+import { isEntryPoint } from './entry-points.ts';
+import { compareSemverRanges } from './version-specifier.ts';
+
+const BUMP_ORDER: BumpLevel[] = ['none', 'patch', 'minor', 'major'];
+
+/**
+ * Recommend a semver bump level for a set of detected changes
+ *
+ * @param changes - Field, dependency and file changes from the comparators
+ * @returns Highest bump level required by any single change
+ */
+export function recommendBump(changes: BumpChanges): BumpLevel {
+  let level: BumpLevel = 'none';
+
+  const fieldChanges = changes.fieldChanges || [];
+  for (let i = 0; i < fieldChanges.length; i++) {
+    level = maxBump(level, fieldChangeBump(fieldChanges[i]));
+  }
+
+  const dependencyChanges = changes.dependencyChanges || [];
+  for (let i = 0; i < dependencyChanges.length; i++) {
+    level = maxBump(level, dependencyChangeBump(dependencyChanges[i]));
+  }
+
+  const fileChanges = changes.fileChanges || [];
+  for (let i = 0; i < fileChanges.length; i++) {
+    level = maxBump(level, fileChangeBump(fileChanges[i], changes.registryPackage));
+  }
+
+  return level;
+}
+
+/**
+ * Return the higher of two bump levels
+ */
+function maxBump(a: BumpLevel, b: BumpLevel): BumpLevel {
+  return BUMP_ORDER.indexOf(a) >= BUMP_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Bump level for a single package.json field change
+ */
+function fieldChangeBump(change: FieldChange): BumpLevel {
+  if (change.significance === 'informational') return 'none';
+
+  // Compatibility constraints: adding or narrowing one excludes existing consumers
+  if (change.field === 'engines') return enginesBump((change.oldValue || {}) as Record<string, string>, (change.newValue || {}) as Record<string, string>);
+  if (change.field === 'os' || change.field === 'cpu') return change.significance === 'critical' ? 'major' : 'minor';
+
+  // Subpath imports only resolve the package's own modules
+  if (change.field === 'imports') return 'patch';
+
+  // Removed fields: consumers relying on a critical field break
+  if (change.newValue === undefined && change.oldValue !== undefined) {
+    return change.significance === 'critical' ? 'major' : 'minor';
+  }
+
+  // An exports map hides every deep import it does not list
+  if (change.field === 'exports' && change.oldValue === undefined && change.subpath === undefined) return 'major';
+
+  // Added fields extend the package
+  if (change.oldValue === undefined) return 'minor';
+
+  if (change.field === 'name' || change.field === 'type') return 'major';
+  // A subpath resolving to another file: consumers still load it
+  if (change.field === 'exports') return 'patch';
+
+  return change.significance === 'critical' ? 'minor' : 'patch';
+}
+
+/**
+ * Engines: a new or narrowed constraint excludes existing consumers
+ */
+function enginesBump(oldEngines: Record<string, string>, newEngines: Record<string, string>): BumpLevel {
+  const names = Object.keys(newEngines);
+  for (let i = 0; i < names.length; i++) {
+    const name = names[i];
+    if (!(name in oldEngines)) return 'major';
+
+    const comparison = compareSemverRanges(oldEngines[name], newEngines[name]);
+    if (comparison.equivalent || comparison.relation === 'widened') continue;
+    return 'major';
+  }
+  return 'minor';
+}
+
+/**
+ * Bump level for a single dependency change
+ */
+function dependencyChangeBump(change: DependencyChange): BumpLevel {
+  if (change.semanticChange === 'none' || change.semanticChange === 'equivalent') return 'none';
+
+  // Peer requirements are enforced on consumers
+  if (change.type === 'peerDependencies') {
+    if (change.action === 'added') return 'major';
+    if (change.action === 'removed' || change.semanticChange === 'widened') return 'minor';
+    return 'major';
+  }
+
+  return change.action === 'added' ? 'minor' : 'patch';
+}
+
+/**
+ * Bump level for a single file change
+ *
+ * @param registryPackage - Published package.json, to tell whether a removed path was reachable (unknown: reachable)
+ */
+function fileChangeBump(change: FileChange, registryPackage: PackageJson | undefined): BumpLevel {
+  if (change.significance === 'informational') return 'none';
+
+  if (change.significance === 'critical') return 'major';
+
+  // Consumers importing a removed path break; without exports every file can be deep-imported
+  if (change.action === 'removed' || change.action === 'renamed') {
+    const removedPath = change.action === 'renamed' ? change.oldPath || change.path : change.path;
+    return !registryPackage || !registryPackage.exports || isEntryPoint(registryPackage, removedPath) ? 'major' : 'patch';
+  }
+
+  let level: BumpLevel = change.action === 'modified' || change.action === 'mode-changed' ? 'patch' : 'minor';
+  const apiChanges = change.apiChanges || [];
+  for (let i = 0; i < apiChanges.length; i++) {
+    level = maxBump(level, apiChangeBump(apiChanges[i]));
+  }
+  return level;
+}
+
+/**
+ * Bump level for a declaration export change
+ */
+function apiChangeBump(change: ApiChange): BumpLevel {
+  return change.action === 'removed' ? 'major' : 'minor';
+}
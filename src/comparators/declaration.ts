@@ -0,0 +1,426 @@
+/**
+ * Type declaration (.d.ts) API comparison
+ *
+ * Declarations are compared by their exported API instead of their bytes:
+ * 1. Comments and formatting are dropped, so regenerated declarations that only
+ *    differ in whitespace, comments or statement order are equivalent (overloads and
+ *    other statements declaring the same name must keep their order). JSDoc comments
+ *    are kept with their statement, since editors show them to consumers (e.g. `@deprecated`)
+ * 2. Exported symbols and their signatures are extracted and compared:
+ *    - removed exports: CRITICAL (consumers referencing them break)
+ *    - added or changed exports: SIGNIFICANT
+ *
+ * The parser is a heuristic for declaration emit (tsc, rollup-plugin-dts, ...):
+ * it splits top-level statements and reads their names, it does not type-check.
+ * Changes to non-exported types used by exports are not listed as API changes,
+ * but still make the file a significant change.
+ */
+
+import type { ApiChange } from '../types.ts';
+
+/**
+ * Statements ending at the closing brace of their body (no semicolon)
+ */
+const BLOCK_DECLARATION = /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:interface|class|enum|const\s+enum|namespace|module|global)\b/;
+
+/**
+ * Keywords starting a new statement, for declarations without semicolons
+ */
+const STATEMENT_START = /^(?:(?:export|import|declare|interface|type|namespace|module|class|abstract|enum|function|const|let|var|global)\b|\ue001)/;
+
+/**
+ * Named declaration, after export/declare modifiers
+ */
+const NAMED_DECLARATION = /^(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|enum|const\s+enum|namespace|module|type)\s+([\w$.]+)/;
+
+const OPENING: Record<string, boolean> = { '{': true, '(': true, '[': true };
+const CLOSING: Record<string, boolean> = { '}': true, ')': true, ']': true };
+
+/**
+ * Check whether a tarball path is a type declaration file
+ */
+export function isDeclarationFile(filePath: string): boolean {
+  return /\.d\.[cm]?ts$/.test(filePath);
+}
+
+/**
+ * Index just past a string literal starting at `start`
+ */
+function skipString(source: string, start: number): number {
+  const quote = source.charAt(start);
+  let i = start + 1;
+  while (i < source.length && source.charAt(i) !== quote) i += source.charAt(i) === '\\' ? 2 : 1;
+  return i + 1;
+}
+
+/**
+ * Replace comments with whitespace, leaving string literals intact
+ *
+ * @param docs - When given, JSDoc comments are collected here and replaced with a `\ue001N\ue001;` marker instead
+ */
+function stripComments(source: string, docs?: string[]): string {
+  let result = '';
+  let i = 0;
+  while (i < source.length) {
+    const char = source.charAt(i);
+    const next = source.charAt(i + 1);
+    if (char === '"' || char === "'" || char === '`') {
+      const end = skipString(source, i);
+      result += source.slice(i, end);
+      i = end;
+    } else if (char === '/' && next === '/') {
+      while (i < source.length && source.charAt(i) !== '\n') i++;
+    } else if (char === '/' && next === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const isDoc = docs && source.charAt(i + 2) === '*' && end > i + 2;
+      if (isDoc) {
+        // Formatting-insensitive: leading asterisks and whitespace of each line are dropped
+        const doc = source.slice(i + 3, end).replace(/\n\s*\*+/g, '\n');
+        result += `\ue001${docs.length}\ue001;`;
+        docs.push(doc.replace(/\s+/g, ' ').trim());
+      } else result += ' ';
+      i = end < 0 ? source.length : end + 2;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply a transform to code outside string and template literals, which are kept verbatim
+ */
+function outsideLiterals(text: string, transform: (code: string) => string): string {
+  const literals: string[] = [];
+  let code = '';
+  let i = 0;
+  while (i < text.length) {
+    const char = text.charAt(i);
+    if (char === '"' || char === "'" || char === '`') {
+      const end = skipString(text, i);
+      code += `\ue000${literals.length}\ue000`;
+      literals.push(text.slice(i, end));
+      i = end;
+    } else {
+      code += char;
+      i++;
+    }
+  }
+  return transform(code).replace(/\ue000(\d+)\ue000/g, (_match, index: string) => literals[Number(index)]);
+}
+
+/**
+ * Collapse whitespace for display
+ */
+function collapse(text: string): string {
+  return outsideLiterals(text, (code) => code.replace(/\s+/g, ' ').trim());
+}
+
+/**
+ * Formatting-insensitive form of a statement for comparison
+ */
+function tighten(text: string): string {
+  return outsideLiterals(text, (code) =>
+    code
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/\s*([{}()[\]<>,;:?|&=!])\s*/g, '$1')
+      .replace(/[;,]+([}\])>])/g, '$1')
+  );
+}
+
+/**
+ * Split comment-free declaration source into top-level statements
+ */
+function splitStatements(code: string): string[] {
+  const statements: string[] = [];
+  let start = 0;
+  let depth = 0;
+  let hasContent = false;
+  let i = 0;
+  while (i < code.length) {
+    const char = code.charAt(i);
+    if (char === '"' || char === "'" || char === '`') {
+      i = skipString(code, i);
+      hasContent = true;
+      continue;
+    }
+
+    // End (exclusive) of a statement completed by this character
+    let statementEnd = -1;
+    if (OPENING[char]) depth++;
+    else if (CLOSING[char]) {
+      depth = Math.max(0, depth - 1);
+      if (char === '}' && depth === 0 && BLOCK_DECLARATION.test(collapse(code.slice(start, i)))) statementEnd = i + 1;
+    } else if (char === ';' && depth === 0) statementEnd = i;
+    else if (char === '\n' && depth === 0 && hasContent && STATEMENT_START.test(code.slice(i + 1, i + 64).replace(/^\s+/, ''))) statementEnd = i;
+
+    if (statementEnd >= 0) {
+      const statement = collapse(code.slice(start, statementEnd));
+      if (statement) statements.push(statement);
+      start = i + 1;
+      hasContent = false;
+    } else if (!/\s/.test(char)) hasContent = true;
+    i++;
+  }
+
+  const last = collapse(code.slice(start));
+  if (last) statements.push(last);
+
+  return statements;
+}
+
+/**
+ * Split a variable statement's declarators at top-level commas
+ */
+function splitDeclarators(text: string): string[] {
+  const declarators: string[] = [];
+  let start = 0;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (char === '"' || char === "'" || char === '`') i = skipString(text, i) - 1;
+    else if (OPENING[char] || char === '<') depth++;
+    else if (CLOSING[char] || (char === '>' && text.charAt(i - 1) !== '=')) depth--;
+    else if (char === ',' && depth === 0) {
+      declarators.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  declarators.push(text.slice(start).trim());
+  return declarators;
+}
+
+/**
+ * Names and signatures declared by a statement (without export/declare modifiers)
+ */
+function readDeclaration(statement: string): Array<{ name: string; signature: string }> {
+  const text = statement.replace(/^(?:export\s+)?(?:default\s+)?(?:declare\s+)?/, '');
+
+  const variable = /^(const|let|var)\s+(.+)$/.exec(text);
+  if (variable) {
+    return splitDeclarators(variable[2]).map((declarator) => ({ name: (/^[\w$]+/.exec(declarator) || [declarator])[0], signature: `${variable[1]} ${declarator}` }));
+  }
+
+  const ambient = /^(?:module|namespace)\s+(['"][^'"]+['"])/.exec(text);
+  if (ambient) return [{ name: `module ${ambient[1]}`, signature: text }];
+  if (/^global\b/.test(text)) return [{ name: 'global', signature: text }];
+
+  const named = NAMED_DECLARATION.exec(text);
+  if (named) return [{ name: named[2], signature: text }];
+
+  const importEquals = /^import\s+(?:type\s+)?([\w$]+)\s*=/.exec(text);
+  if (importEquals) return [{ name: importEquals[1], signature: text }];
+
+  return [];
+}
+
+/**
+ * Split an import/export specifier (`type a as b`) into its source and bound names
+ */
+function parseSpecifier(specifier: string): { source: string; name: string } | undefined {
+  const parts = specifier
+    .replace(/^\s*type\s+/, '')
+    .trim()
+    .split(/\s+as\s+/);
+  return parts[0] ? { source: parts[0], name: parts[parts.length - 1] } : undefined;
+}
+
+/**
+ * Local bindings created by an import statement, mapped to their source
+ */
+function readImportBindings(statement: string): Array<{ name: string; signature: string }> {
+  const match = /^import\s+(?:type\s+)?(.+?)\s+from\s+(['"][^'"]+['"])$/.exec(statement);
+  if (!match) return [];
+
+  const bindings: Array<{ name: string; signature: string }> = [];
+  const source = match[2];
+  let clause = match[1];
+
+  const named = /\{([^}]*)\}/.exec(clause);
+  if (named) {
+    clause = clause.replace(named[0], '');
+    const specifiers = named[1].split(',');
+    for (let i = 0; i < specifiers.length; i++) {
+      const specifier = parseSpecifier(specifiers[i]);
+      if (specifier) bindings.push({ name: specifier.name, signature: `import { ${specifier.source} } from ${source}` });
+    }
+  }
+
+  const namespace = /\*\s*as\s+([\w$]+)/.exec(clause);
+  if (namespace) {
+    clause = clause.replace(namespace[0], '');
+    bindings.push({ name: namespace[1], signature: `import * from ${source}` });
+  }
+
+  const defaultName = /^\s*([\w$]+)/.exec(clause);
+  if (defaultName) bindings.push({ name: defaultName[1], signature: `import default from ${source}` });
+
+  return bindings;
+}
+
+function addSignature(signatures: Record<string, string>, name: string, signature: string): void {
+  signatures[name] = signatures[name] === undefined ? signature : `${signatures[name]}\n${signature}`;
+}
+
+/**
+ * Extract the exported symbols of a declaration file
+ *
+ * Overloads and merged declarations are combined into one signature. Files
+ * without import/export statements are global scripts: every declaration is API.
+ *
+ * @param source - Declaration file contents
+ * @returns Signatures by exported name ('default', 'export=', 'module "x"', 'global',
+ *          or '* from "x"' for star re-exports)
+ */
+export function extractDeclarationExports(source: string): Record<string, string> {
+  const statements = splitStatements(stripComments(source));
+  const locals: Record<string, string> = {};
+  const exported: Record<string, string> = {};
+  const references: Array<{ local: string; name: string }> = [];
+  let isModule = false;
+
+  for (let i = 0; i < statements.length; i++) {
+    const statement = statements[i];
+    if (/^(?:import|export)\b/.test(statement)) isModule = true;
+
+    const star = /^export\s*\*\s*(?:as\s+([\w$]+)\s+)?from\s+(.+)$/.exec(statement);
+    if (star) {
+      addSignature(exported, star[1] || `* from ${star[2]}`, statement);
+      continue;
+    }
+
+    const list = /^export\s+(?:type\s+)?\{([^}]*)\}\s*(?:from\s+(.+))?$/.exec(statement);
+    if (list) {
+      const specifiers = list[1].split(',');
+      for (let j = 0; j < specifiers.length; j++) {
+        const specifier = parseSpecifier(specifiers[j]);
+        if (!specifier) continue;
+        if (list[2]) addSignature(exported, specifier.name, `${specifier.source} from ${list[2]}`);
+        else references.push({ local: specifier.source, name: specifier.name });
+      }
+      continue;
+    }
+
+    const reference = /^export\s*(=|default\s|as\s+namespace\s)\s*([\w$.]+)$/.exec(statement);
+    if (reference) {
+      if (reference[1] === '=') references.push({ local: reference[2], name: 'export=' });
+      else if (reference[1].charAt(0) === 'd') references.push({ local: reference[2], name: 'default' });
+      else addSignature(exported, 'export as namespace', reference[2]);
+      continue;
+    }
+
+    if (/^export\s/.test(statement)) {
+      const isDefault = /^export\s+default\b/.test(statement);
+      const declarations = readDeclaration(statement);
+      if (isDefault) addSignature(exported, 'default', statement.replace(/^export\s+default\s+(?:declare\s+)?/, ''));
+      for (let j = 0; j < declarations.length; j++) {
+        addSignature(isDefault ? locals : exported, declarations[j].name, declarations[j].signature);
+      }
+      continue;
+    }
+
+    if (/^import\b/.test(statement)) {
+      const bindings = /^import\s+(?:type\s+)?[\w$]+\s*=/.test(statement) ? readDeclaration(statement) : readImportBindings(statement);
+      for (let j = 0; j < bindings.length; j++) addSignature(locals, bindings[j].name, bindings[j].signature);
+      continue;
+    }
+
+    const declarations = readDeclaration(statement);
+    for (let j = 0; j < declarations.length; j++) {
+      // Ambient modules and global augmentations are visible to consumers
+      const isAmbient = declarations[j].name === 'global' || declarations[j].name.indexOf('module ') === 0;
+      addSignature(isAmbient ? exported : locals, declarations[j].name, declarations[j].signature);
+    }
+  }
+
+  for (let i = 0; i < references.length; i++) {
+    const { local, name } = references[i];
+    addSignature(exported, name, locals[local] !== undefined ? locals[local] : local);
+  }
+
+  // Global scripts: every top-level declaration is part of the API
+  if (!isModule) {
+    const names = Object.keys(locals);
+    for (let i = 0; i < names.length; i++) addSignature(exported, names[i], locals[names[i]]);
+  }
+
+  return exported;
+}
+
+/**
+ * Comparison forms of the statements of a declaration file, sorted
+ * Statements declaring the same name (overloads, merged interfaces) keep their relative order,
+ * since TypeScript resolves overloads in declaration order. JSDoc comments are part of the
+ * statement they precede (or contain, for members).
+ */
+function sortStatements(source: string): string[] {
+  const docs: string[] = [];
+  const statements = splitStatements(stripComments(source, docs));
+  const restoreDocs = (text: string) => text.replace(/\ue001(\d+)\ue001;?/g, (_match, index: string) => `/**${docs[Number(index)]}*/`);
+  const counts: Record<string, number> = {};
+  const result: string[] = [];
+  let pending = '';
+  for (let i = 0; i < statements.length; i++) {
+    if (/^\ue001\d+\ue001$/.test(statements[i])) {
+      pending += restoreDocs(`${statements[i]};`);
+      continue;
+    }
+
+    const text = pending + restoreDocs(tighten(statements[i]));
+    pending = '';
+    const declarations = readDeclaration(statements[i]);
+    if (declarations.length === 0) {
+      result.push(text);
+      continue;
+    }
+
+    const name = declarations[0].name;
+    counts[name] = typeof counts[name] === 'number' ? counts[name] + 1 : 1;
+    result.push(`${name}\n${counts[name]}\n${text}`);
+  }
+  if (pending) result.push(pending);
+  return result.sort();
+}
+
+/**
+ * Check whether two declaration files only differ in comments, formatting or statement order
+ * (JSDoc and string and template literals are compared verbatim, same-name statements in order)
+ */
+export function declarationsEqual(localSource: string, registrySource: string): boolean {
+  const localStatements = sortStatements(localSource);
+  const registryStatements = sortStatements(registrySource);
+  if (localStatements.length !== registryStatements.length) return false;
+  for (let i = 0; i < localStatements.length; i++) {
+    if (localStatements[i] !== registryStatements[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Compare the exported API of two versions of a declaration file
+ *
+ * @param localSource - Local file contents (undefined when the file was removed)
+ * @param registrySource - Registry file contents (undefined when the file was added)
+ * @returns Added, removed and changed exports, in declaration order
+ */
+export function compareDeclarations(localSource: string | undefined, registrySource: string | undefined): ApiChange[] {
+  const localExports = localSource === undefined ? {} : extractDeclarationExports(localSource);
+  const registryExports = registrySource === undefined ? {} : extractDeclarationExports(registrySource);
+  const changes: ApiChange[] = [];
+
+  const registryNames = Object.keys(registryExports);
+  for (let i = 0; i < registryNames.length; i++) {
+    const name = registryNames[i];
+    if (localExports[name] === undefined) changes.push({ name, action: 'removed', oldSignature: registryExports[name] });
+    else if (tighten(localExports[name]) !== tighten(registryExports[name])) changes.push({ name, action: 'changed', oldSignature: registryExports[name], newSignature: localExports[name] });
+  }
+
+  const localNames = Object.keys(localExports);
+  for (let i = 0; i < localNames.length; i++) {
+    if (registryExports[localNames[i]] === undefined) changes.push({ name: localNames[i], action: 'added', newSignature: localExports[localNames[i]] });
+  }
+
+  return changes;
+}
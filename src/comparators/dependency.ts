@@ -52,7 +52,7 @@ export function compareDependencies(local: PackageJson, registry: PackageJson, o
       // Handle regular dependency objects
       const localDeps = (local[depType] as Record<string, string>) || {};
       const registryDeps = (registry[depType] as Record<string, string>) || {};
-      const depChanges = compareDependencyObject(localDeps, registryDeps, depType, semanticOpts);
+      const depChanges = compareDependencyObject(localDeps, registryDeps, depType, semanticOpts, options);
       changes.push.apply(changes, depChanges);
     }
   }
@@ -70,7 +70,7 @@ export function compareDependencies(local: PackageJson, registry: PackageJson, o
 /**
  * Compare two dependency objects
  */
-function compareDependencyObject(localDeps: Record<string, string>, registryDeps: Record<string, string>, depType: SignificantDepType, semanticOpts?: SemanticChangeOptions): DependencyChange[] {
+function compareDependencyObject(localDeps: Record<string, string>, registryDeps: Record<string, string>, depType: SignificantDepType, semanticOpts?: SemanticChangeOptions, options?: DependencyCompareOptions): DependencyChange[] {
   const changes: DependencyChange[] = [];
 
   // Find added and changed dependencies
@@ -90,8 +90,11 @@ function compareDependencyObject(localDeps: Record<string, string>, registryDeps
         semanticChange: 'incompatible',
       });
     } else if (localSpec !== registrySpec) {
-      // Dependency changed - compare semantically
-      const comparison = compareVersionSpecifiers(registrySpec, localSpec);
+      // Dependency changed - compare semantically (local workspace: and catalog: specifiers are resolved first)
+      const comparison = compareVersionSpecifiers(registrySpec, localSpec, {
+        workspaceVersion: options?.workspaceVersions?.[name],
+        catalogEntries: getCatalogEntries(name, options?.catalogs),
+      });
       changes.push({
         name,
         type: depType,
@@ -123,6 +126,21 @@ function compareDependencyObject(localDeps: Record<string, string>, registryDeps
   return changes;
 }
 
+/**
+ * Collect a dependency's range from every catalog, keyed by catalog name
+ */
+function getCatalogEntries(name: string, catalogs?: Record<string, Record<string, string>>): Record<string, string> | undefined {
+  if (!catalogs) return undefined;
+
+  const entries: Record<string, string> = {};
+  const catalogNames = Object.keys(catalogs);
+  for (let i = 0; i < catalogNames.length; i++) {
+    const range = catalogs[catalogNames[i]][name];
+    if (range !== undefined) entries[catalogNames[i]] = range;
+  }
+  return entries;
+}
+
 /**
  * Compare bundledDependencies arrays
  * Handles both bundledDependencies and bundleDependencies spellings
@@ -0,0 +1,137 @@
+/**
+ * Entry point resolution against tarball contents
+ *
+ * Entry points are the package.json paths consumers load:
+ * - main: resolved like require (extensions .js/.json/.node, directory index)
+ * - module, types, typings, bin: exact paths
+ * - exports: every target of every subpath and condition; subpath patterns
+ *   (`./lib/*.js`) and folder mappings (`./lib/`) need at least one matching file
+ */
+
+import path from 'path';
+import type { EntryPointError, PackageJson } from '../types.ts';
+
+/**
+ * Fields validated by default
+ */
+const ENTRY_POINT_FIELDS = ['main', 'module', 'types', 'typings', 'bin', 'exports'];
+
+/**
+ * Extensions and directory indexes tried for main, in require order
+ */
+const MAIN_SUFFIXES = ['', '.js', '.json', '.node', '/index.js', '/index.json', '/index.node'];
+
+/**
+ * A path referenced by package.json
+ */
+interface EntryPointTarget {
+  /** Referencing field, e.g. 'main', 'bin.nnp' or 'exports["./utils"].import' */
+  field: string;
+  /** Path as written in package.json */
+  target: string;
+}
+
+/**
+ * Tarball path of a package.json path ('./bin/cli.js' → 'package/bin/cli.js')
+ */
+export function toTarballPath(target: string): string {
+  return `package/${path.posix.normalize(target).replace(/^(\.\/)+/, '')}`;
+}
+
+/**
+ * Collect the targets of an exports value (subpaths, conditions and fallback arrays)
+ */
+function collectExportTargets(exports: unknown, field: string, targets: EntryPointTarget[]): void {
+  if (typeof exports === 'string') targets.push({ field, target: exports });
+  else if (Array.isArray(exports)) {
+    for (let i = 0; i < exports.length; i++) collectExportTargets(exports[i], `${field}[${i}]`, targets);
+  } else if (exports && typeof exports === 'object') {
+    const keys = Object.keys(exports);
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i].charAt(0) === '.' ? `${field}["${keys[i]}"]` : `${field}.${keys[i]}`;
+      collectExportTargets((exports as Record<string, unknown>)[keys[i]], key, targets);
+    }
+  }
+}
+
+/**
+ * List the paths referenced by entry point fields
+ *
+ * @param manifest - package.json
+ * @param fields - Fields to read (default: main, module, types, typings, bin, exports)
+ */
+export function getEntryPointTargets(manifest: PackageJson, fields: string[] = ENTRY_POINT_FIELDS): EntryPointTarget[] {
+  const targets: EntryPointTarget[] = [];
+
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    const value = (manifest as unknown as Record<string, unknown>)[field];
+
+    if (field === 'exports') collectExportTargets(value, 'exports', targets);
+    else if (field === 'bin' && value && typeof value === 'object') {
+      const names = Object.keys(value);
+      for (let j = 0; j < names.length; j++) {
+        const target = (value as Record<string, unknown>)[names[j]];
+        if (typeof target === 'string') targets.push({ field: `bin.${names[j]}`, target });
+      }
+    } else if (typeof value === 'string') targets.push({ field, target: value });
+  }
+
+  return targets;
+}
+
+/**
+ * Check whether an entry point target resolves to a tarball path
+ */
+function resolvesTo(entry: EntryPointTarget, filePath: string): boolean {
+  const target = toTarballPath(entry.target);
+
+  // Folder mapping: "./lib/"
+  if (target.charAt(target.length - 1) === '/') return filePath.indexOf(target) === 0;
+
+  // Subpath pattern: "./lib/*.js"
+  const parts = target.split('*');
+  if (parts.length > 1) return parts.length === 2 && filePath.length >= target.length - 1 && filePath.indexOf(parts[0]) === 0 && filePath.slice(filePath.length - parts[1].length) === parts[1];
+
+  if (entry.field !== 'main') return filePath === target;
+  for (let i = 0; i < MAIN_SUFFIXES.length; i++) {
+    if (filePath === target + MAIN_SUFFIXES[i]) return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether main, exports or bin of a manifest resolve to a tarball path
+ */
+export function isEntryPoint(manifest: PackageJson | undefined, filePath: string): boolean {
+  if (!manifest) return false;
+
+  const targets = getEntryPointTargets(manifest, ['main', 'bin', 'exports']);
+  for (let i = 0; i < targets.length; i++) {
+    if (resolvesTo(targets[i], filePath)) return true;
+  }
+  return false;
+}
+
+/**
+ * Find entry points that resolve to no file in a tarball (e.g. a build that did not run)
+ *
+ * @param manifest - package.json of the tarball
+ * @param filePaths - Tarball paths (with the package/ prefix)
+ * @returns One error per missing target
+ */
+export function validateEntryPoints(manifest: PackageJson, filePaths: string[]): EntryPointError[] {
+  const errors: EntryPointError[] = [];
+  const targets = getEntryPointTargets(manifest);
+
+  for (let i = 0; i < targets.length; i++) {
+    let found = false;
+    for (let j = 0; j < filePaths.length && !found; j++) found = resolvesTo(targets[i], filePaths[j]);
+    if (found) continue;
+
+    const { field, target } = targets[i];
+    errors.push({ field, target, message: `${field} target ${target} is not in the package` });
+  }
+
+  return errors;
+}
@@ -0,0 +1,182 @@
+/**
+ * Exports and imports field comparison by resolution
+ *
+ * Both versions are resolved the way Node resolves a package subpath, for every
+ * subpath and a set of condition environments:
+ * - default only (no conditions active)
+ * - each condition path written in either version (e.g. node + import)
+ * - common runtime and bundler combinations (node/browser × import/require, with and without types)
+ *
+ * Conditions are matched in key order and null targets exclude a subpath, so reordering
+ * subpaths is not a change while reordering conditions can be.
+ *
+ * imports (`#internal` specifiers) are resolved the same way, but only affect the package's
+ * own modules, so none of their changes are critical.
+ */
+
+import type { FieldChange } from '../types.ts';
+
+/**
+ * Condition sets resolved for every subpath besides default-only and those written in the manifests
+ */
+const COMMON_ENVIRONMENTS = [
+  ['node', 'import'],
+  ['node', 'require'],
+  ['browser', 'import'],
+  ['browser', 'require'],
+  ['types', 'import'],
+  ['types', 'require'],
+  ['node', 'types', 'import'],
+  ['node', 'types', 'require'],
+];
+
+/**
+ * Expand the exports shorthand (a target, fallback array or condition object) to a subpath map
+ */
+function toSubpathMap(exports: unknown): Record<string, unknown> {
+  if (exports == null) return {};
+  if (typeof exports !== 'object' || Array.isArray(exports)) return { '.': exports };
+
+  const keys = Object.keys(exports as Record<string, unknown>);
+  if (keys.length > 0 && keys[0].charAt(0) !== '.') return { '.': exports };
+  return exports as Record<string, unknown>;
+}
+
+/**
+ * Read an imports field ({} when missing or malformed; imports have no shorthand)
+ */
+function toImportsMap(imports: unknown): Record<string, unknown> {
+  return imports && typeof imports === 'object' && !Array.isArray(imports) ? (imports as Record<string, unknown>) : {};
+}
+
+/**
+ * Resolve an exports value under a set of active conditions ('default' is always active)
+ *
+ * @returns Target path, null when explicitly excluded, or undefined when no condition matches
+ */
+function resolveTarget(value: unknown, conditions: Record<string, boolean>): string | null | undefined {
+  if (typeof value === 'string') return value;
+  if (value === null) return null;
+
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      const target = resolveTarget(value[i], conditions);
+      if (typeof target === 'string') return target;
+    }
+    return undefined;
+  }
+
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value);
+    for (let i = 0; i < keys.length; i++) {
+      if (keys[i] !== 'default' && !conditions[keys[i]]) continue;
+      const target = resolveTarget((value as Record<string, unknown>)[keys[i]], conditions);
+      if (target !== undefined) return target;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collect the condition paths leading to each target of an exports value
+ */
+function collectConditionPaths(value: unknown, conditions: string[], paths: string[][]): void {
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) collectConditionPaths(value[i], conditions, paths);
+  } else if (value && typeof value === 'object') {
+    const keys = Object.keys(value);
+    for (let i = 0; i < keys.length; i++) {
+      collectConditionPaths((value as Record<string, unknown>)[keys[i]], keys[i] === 'default' ? conditions : conditions.concat(keys[i]), paths);
+    }
+  } else paths.push(conditions);
+}
+
+/**
+ * List the condition sets to resolve, without duplicates
+ */
+function getEnvironments(localMap: Record<string, unknown>, registryMap: Record<string, unknown>): string[][] {
+  const paths: string[][] = [[]];
+  const maps = [registryMap, localMap];
+  for (let i = 0; i < maps.length; i++) {
+    const subpaths = Object.keys(maps[i]);
+    for (let j = 0; j < subpaths.length; j++) collectConditionPaths(maps[i][subpaths[j]], [], paths);
+  }
+
+  const environments: string[][] = [];
+  const seen: Record<string, boolean> = {};
+  const candidates = paths.concat(COMMON_ENVIRONMENTS);
+  for (let i = 0; i < candidates.length; i++) {
+    const key = candidates[i].slice().sort().join('+');
+    if (seen[key]) continue;
+    seen[key] = true;
+    environments.push(candidates[i]);
+  }
+  return environments;
+}
+
+/**
+ * Compare two subpath maps by what each subpath resolves to
+ *
+ * @param removedSignificance - Significance of a subpath or condition that no longer resolves
+ */
+function compareSubpathMaps(field: string, localMap: Record<string, unknown>, registryMap: Record<string, unknown>, removedSignificance: FieldChange['significance']): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const environments = getEnvironments(localMap, registryMap);
+
+  const subpaths = Object.keys(registryMap);
+  const localSubpaths = Object.keys(localMap);
+  for (let i = 0; i < localSubpaths.length; i++) {
+    if (!(localSubpaths[i] in registryMap)) subpaths.push(localSubpaths[i]);
+  }
+
+  for (let i = 0; i < subpaths.length; i++) {
+    const subpath = subpaths[i];
+    const reported: Record<string, boolean> = {};
+
+    for (let j = 0; j < environments.length; j++) {
+      const active: Record<string, boolean> = {};
+      for (let k = 0; k < environments[j].length; k++) active[environments[j][k]] = true;
+
+      // Excluded (null) and unmatched subpaths are both not exported
+      const oldTarget = resolveTarget(registryMap[subpath], active) || undefined;
+      const newTarget = resolveTarget(localMap[subpath], active) || undefined;
+      if (oldTarget === newTarget) continue;
+
+      const key = `${oldTarget}\n${newTarget}`;
+      if (reported[key]) continue;
+      reported[key] = true;
+
+      changes.push({
+        field,
+        subpath,
+        conditions: environments[j],
+        oldValue: oldTarget,
+        newValue: newTarget,
+        significance: newTarget === undefined ? removedSignificance : 'significant',
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare two exports fields by what each subpath resolves to
+ *
+ * @param localExports - Local exports field
+ * @param registryExports - Registry exports field
+ * @returns One change per subpath and distinct resolution change, reported for the first condition set
+ *          showing it: removed subpaths/conditions are critical, added or retargeted ones significant
+ */
+export function compareExports(localExports: unknown, registryExports: unknown): FieldChange[] {
+  return compareSubpathMaps('exports', toSubpathMap(localExports), toSubpathMap(registryExports), 'critical');
+}
+
+/**
+ * Compare two imports fields by what each `#specifier` resolves to
+ *
+ * @returns One change per specifier and distinct resolution change, all significant
+ */
+export function compareImports(localImports: unknown, registryImports: unknown): FieldChange[] {
+  return compareSubpathMaps('imports', toImportsMap(localImports), toImportsMap(registryImports), 'significant');
+}
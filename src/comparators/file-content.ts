@@ -5,6 +5,20 @@
  * 1. Fast path: Compare tarball hashes
  * 2. If different: Extract and compare file-by-file
  * 3. Special handling for package.json (semantic comparison elsewhere)
+ *
+ * Files matching options.ignoreFiles, and files only differing in content that
+ * the enabled normalizations remove (see normalize.ts), are reported as
+ * informational changes. Other type declaration changes list their exported
+ * API changes (see declaration.ts).
+ *
+ * Files with equal contents but different permission bits are 'mode-changed',
+ * which is significant for files referenced by `bin` with options.binModes (e.g. a
+ * baseline tarball without the executable bit) and informational otherwise;
+ * 'modified' files keep their old and new modes too.
+ * Symlink targets are compared as contents.
+ *
+ * A removed file whose contents were added at another path is 'renamed' (with
+ * its oldPath), and CRITICAL when main, exports or bin still reference the old path.
  */
 
 import crypto from 'crypto';
@@ -15,7 +29,10 @@ import zlib from 'zlib';
 
 const pipeline = promisify(pipelineCb);
 
-import type { FileChange, FileComparison } from '../types.ts';
+import type { FileChange, FileCompareOptions, FileComparison, FileDiff, PackageJson } from '../types.ts';
+import { compareDeclarations, isDeclarationFile } from './declaration.ts';
+import { getEntryPointTargets, isEntryPoint, toTarballPath } from './entry-points.ts';
+import { findNormalizations, isBinary, resolveLineNormalizers } from './normalize.ts';
 
 const _require = typeof require === 'undefined' ? Module.createRequire(import.meta.url) : require;
 
@@ -29,14 +46,40 @@ function getTar(): typeof import('tar') {
   return _tar;
 }
 
+/**
+ * Files larger than this (bytes) are not diffed by default
+ */
+const DEFAULT_MAX_DIFF_SIZE = 256 * 1024;
+
+/**
+ * Tar entry types kept when extracting (directories are implied by paths)
+ */
+const FILE_ENTRY_TYPES: Record<string, boolean> = { File: true, OldFile: true, ContiguousFile: true, SymbolicLink: true, Link: true };
+
+/**
+ * File extracted from a tarball
+ */
+interface TarEntry {
+  content: Buffer;
+  /** Permission bits (e.g. 0o755) */
+  mode: number;
+  /** Tar entry type, e.g. 'File' or 'SymbolicLink' */
+  type: string;
+  /** Target of a link entry */
+  linkpath?: string;
+}
+
 /**
  * Compare package files from two tarballs
  *
  * @param localTarball - Local package tarball as Buffer
  * @param registryTarball - Registry package tarball as Buffer
+ * @param options - Diff options
  * @returns File comparison result
  */
-export async function comparePackageFiles(localTarball: Buffer, registryTarball: Buffer): Promise<FileComparison> {
+export async function comparePackageFiles(localTarball: Buffer, registryTarball: Buffer, options?: FileCompareOptions): Promise<FileComparison> {
+  const lineNormalizers = resolveLineNormalizers(options?.lineNormalizers);
+
   // Fast path: identical tarballs
   const localHash = hashBuffer(localTarball);
   const registryHash = hashBuffer(registryTarball);
@@ -46,6 +89,7 @@ export async function comparePackageFiles(localTarball: Buffer, registryTarball:
       identical: true,
       fileChanges: [],
       packageJsonOnly: false,
+      hasSignificantChanges: false,
     };
   }
 
@@ -53,7 +97,8 @@ export async function comparePackageFiles(localTarball: Buffer, registryTarball:
   const localFiles = await extractTarball(localTarball);
   const registryFiles = await extractTarball(registryTarball);
 
-  const changes: FileChange[] = [];
+  let changes: FileChange[] = [];
+  const binPaths: Record<string, boolean> = options?.binModes ? getBinPaths(localFiles, registryFiles) : {};
 
   // Build combined set of all paths
   const allPaths: Record<string, boolean> = {};
@@ -67,50 +112,189 @@ export async function comparePackageFiles(localTarball: Buffer, registryTarball:
   }
 
   let onlyPackageJsonDiffers = true;
+  let packageJsonDiffers = false;
 
   const pathKeys = Object.keys(allPaths);
   for (let i = 0; i < pathKeys.length; i++) {
     const filePath = pathKeys[i];
     const isPackageJson = filePath === 'package/package.json' || filePath.indexOf('/package.json') === filePath.length - 13;
-    const localContent = localFiles[filePath];
-    const registryContent = registryFiles[filePath];
-
-    if (!registryContent) {
-      // File added
-      changes.push({ path: filePath, action: 'added' });
-      if (!isPackageJson) onlyPackageJsonDiffers = false;
-    } else if (!localContent) {
-      // File removed
-      changes.push({ path: filePath, action: 'removed' });
-      if (!isPackageJson) onlyPackageJsonDiffers = false;
-    } else if (!buffersEqual(localContent, registryContent)) {
-      // File modified
-      changes.push({ path: filePath, action: 'modified' });
-      if (!isPackageJson) onlyPackageJsonDiffers = false;
+    const localEntry = localFiles[filePath];
+    const registryEntry = registryFiles[filePath];
+    const localContent = localEntry && localEntry.content;
+    const registryContent = registryEntry && registryEntry.content;
+
+    let action: FileChange['action'];
+    if (!registryEntry) action = 'added';
+    else if (!localEntry) action = 'removed';
+    else if (localEntry.type !== registryEntry.type || localEntry.linkpath !== registryEntry.linkpath || !buffersEqual(localContent, registryContent)) action = 'modified';
+    else if (localEntry.mode !== registryEntry.mode) action = 'mode-changed';
+    else continue;
+
+    // Modes are also kept on modified files, so a mode change is not hidden by a content change
+    const modes = localEntry && registryEntry && localEntry.type === registryEntry.type && localEntry.mode !== registryEntry.mode ? { oldMode: registryEntry.mode, newMode: localEntry.mode } : undefined;
+
+    // Only bin scripts need their mode (consumers execute them), and only with options.binModes
+    if (action === 'mode-changed') {
+      const ignoredBy = matchIgnorePattern(filePath, options?.ignoreFiles);
+      if (!binPaths[filePath] || ignoredBy) {
+        changes.push({ path: filePath, action, significance: 'informational', ...modes, ...(ignoredBy && { ignoredBy }) });
+        continue;
+      }
+      changes.push({ path: filePath, action, significance: 'significant', ...modes });
+      onlyPackageJsonDiffers = false;
+      continue;
+    }
+
+    // Ignored files are listed but do not count towards the publish decision
+    const ignoredBy = matchIgnorePattern(filePath, options?.ignoreFiles);
+    if (ignoredBy) {
+      changes.push({ path: filePath, action, significance: 'informational', ignoredBy, ...modes });
+      continue;
+    }
+
+    // Modified files that only differ in normalized content (line endings, ...) are informational, unless a bin script's mode changed
+    const normalizations = action === 'modified' ? findNormalizations(filePath, localContent, registryContent, options, lineNormalizers) : undefined;
+    if (normalizations && !(modes && binPaths[filePath])) {
+      changes.push({ path: filePath, action, significance: 'informational', normalizations, ...modes });
+      continue;
+    }
+
+    const change: FileChange = { path: filePath, action, significance: 'significant', ...modes };
+    if (isDeclarationFile(filePath) && options?.compareDeclarations !== false) {
+      const apiChanges = compareDeclarations(localContent && localContent.toString('utf8'), registryContent && registryContent.toString('utf8'));
+      if (apiChanges.length > 0) change.apiChanges = apiChanges;
+    }
+    changes.push(change);
+    if (isPackageJson) packageJsonDiffers = true;
+    else onlyPackageJsonDiffers = false;
+  }
+
+  changes = detectRenames(changes, localFiles, registryFiles);
+
+  if (options?.includeDiffs) {
+    for (let i = 0; i < changes.length; i++) {
+      if (changes[i].action === 'mode-changed' || changes[i].action === 'renamed') continue;
+      const registryEntry = registryFiles[changes[i].path];
+      const localEntry = localFiles[changes[i].path];
+      changes[i].diff = createFileDiff(changes[i].path, registryEntry && registryEntry.content, localEntry && localEntry.content, options.maxDiffSize);
     }
   }
 
   return {
     identical: changes.length === 0,
     fileChanges: changes,
-    packageJsonOnly: onlyPackageJsonDiffers && changes.length > 0,
+    packageJsonOnly: onlyPackageJsonDiffers && packageJsonDiffers,
+    hasSignificantChanges: !onlyPackageJsonDiffers || packageJsonDiffers,
   };
 }
 
+/**
+ * Tarball paths of the bin scripts declared by either package.json
+ */
+function getBinPaths(localFiles: Record<string, TarEntry>, registryFiles: Record<string, TarEntry>): Record<string, boolean> {
+  const binPaths: Record<string, boolean> = {};
+  const manifests = [readManifest(localFiles), readManifest(registryFiles)];
+
+  for (let i = 0; i < manifests.length; i++) {
+    const manifest = manifests[i];
+    const targets = manifest ? getEntryPointTargets(manifest, ['bin']) : [];
+    for (let j = 0; j < targets.length; j++) binPaths[toTarballPath(targets[j].target)] = true;
+  }
+
+  return binPaths;
+}
+
+/**
+ * Parse the root package.json of an extracted tarball
+ *
+ * @returns Manifest, or undefined when missing or invalid
+ */
+function readManifest(files: Record<string, TarEntry>): PackageJson | undefined {
+  if (!files['package/package.json']) return undefined;
+  try {
+    return JSON.parse(files['package/package.json'].content.toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Pair significant removals and additions with identical contents into renames
+ *
+ * @returns Changes with each pair replaced by one 'renamed' change at the new path
+ */
+function detectRenames(changes: FileChange[], localFiles: Record<string, TarEntry>, registryFiles: Record<string, TarEntry>): FileChange[] {
+  // Removed files by content hash (empty files say nothing about where a file moved)
+  const removedByHash: Record<string, string[]> = {};
+  for (let i = 0; i < changes.length; i++) {
+    const content = registryFiles[changes[i].path] && registryFiles[changes[i].path].content;
+    if (changes[i].action !== 'removed' || changes[i].significance === 'informational' || !content || content.length === 0) continue;
+    const hash = hashBuffer(content);
+    if (!removedByHash[hash]) removedByHash[hash] = [];
+    removedByHash[hash].push(changes[i].path);
+  }
+  if (Object.keys(removedByHash).length === 0) return changes;
+
+  const manifest = readManifest(localFiles);
+  const renamedFrom: Record<string, string> = {};
+  const paired: Record<string, boolean> = {};
+  for (let i = 0; i < changes.length; i++) {
+    const content = localFiles[changes[i].path] && localFiles[changes[i].path].content;
+    if (changes[i].action !== 'added' || changes[i].significance === 'informational' || !content || content.length === 0) continue;
+    const candidates = removedByHash[hashBuffer(content)];
+    if (!candidates || candidates.length === 0) continue;
+    const oldPath = candidates.shift() as string;
+    renamedFrom[changes[i].path] = oldPath;
+    paired[oldPath] = true;
+  }
+
+  const result: FileChange[] = [];
+  for (let i = 0; i < changes.length; i++) {
+    const change = changes[i];
+    if (change.action === 'removed' && paired[change.path]) continue;
+
+    const oldPath = change.action === 'added' ? renamedFrom[change.path] : undefined;
+    if (!oldPath) {
+      result.push(change);
+      continue;
+    }
+
+    // The local package still points at the old location
+    result.push({ path: change.path, action: 'renamed', oldPath, significance: isEntryPoint(manifest, oldPath) ? 'critical' : 'significant' });
+  }
+  return result;
+}
+
+/**
+ * Find the first ignore pattern matching a tarball path (matched without the package/ prefix)
+ *
+ * @returns Matching pattern, or undefined
+ */
+function matchIgnorePattern(filePath: string, ignoreFiles?: string[]): string | undefined {
+  if (!ignoreFiles || ignoreFiles.length === 0) return undefined;
+
+  const { minimatch } = _require('minimatch');
+  const relativePath = filePath.replace(/^package\//, '');
+  for (let i = 0; i < ignoreFiles.length; i++) {
+    if (minimatch(relativePath, ignoreFiles[i], { dot: true, matchBase: true })) return ignoreFiles[i];
+  }
+  return undefined;
+}
+
 /**
  * Extract tarball contents to memory
  *
  * @param tarball - Tarball as Buffer (gzipped)
- * @returns Map of file paths to content buffers
+ * @returns Map of file paths to contents, permission bits and entry types
  */
-async function extractTarball(tarball: Buffer): Promise<Record<string, Buffer>> {
-  const files: Record<string, Buffer> = {};
+async function extractTarball(tarball: Buffer): Promise<Record<string, TarEntry>> {
+  const files: Record<string, TarEntry> = {};
   const tar = getTar();
 
   // Create a parser that collects file contents
   const parser = new tar.Parser({
     onReadEntry: (entry) => {
-      if (entry.type === 'File') {
+      if (FILE_ENTRY_TYPES[entry.type]) {
         const chunks: Buffer[] = [];
 
         entry.on('data', (chunk: Buffer) => {
@@ -118,7 +302,12 @@ async function extractTarball(tarball: Buffer): Promise<Record<string, Buffer>>
         });
 
         entry.on('end', () => {
-          files[entry.path] = Buffer.concat(chunks);
+          files[entry.path] = {
+            content: Buffer.concat(chunks),
+            mode: (entry.mode || 0) & 0o7777,
+            type: entry.type,
+            ...(entry.linkpath && { linkpath: entry.linkpath }),
+          };
         });
       } else {
         // Drain non-file entries (directories, etc.)
@@ -133,6 +322,42 @@ async function extractTarball(tarball: Buffer): Promise<Record<string, Buffer>>
   return files;
 }
 
+/**
+ * Create a unified line diff for a changed file
+ *
+ * @param filePath - Path in the tarball (the package/ prefix is dropped in the diff headers)
+ * @param oldContent - Registry content (undefined when the file was added)
+ * @param newContent - Local content (undefined when the file was removed)
+ * @param maxDiffSize - Largest file (bytes) to diff
+ * @returns Diff with line counts, or the reason it was skipped
+ */
+export function createFileDiff(filePath: string, oldContent: Buffer | undefined, newContent: Buffer | undefined, maxDiffSize: number = DEFAULT_MAX_DIFF_SIZE): FileDiff {
+  if (isBinary(oldContent) || isBinary(newContent)) return { skipped: 'binary' };
+  if ((oldContent ? oldContent.length : 0) > maxDiffSize || (newContent ? newContent.length : 0) > maxDiffSize) return { skipped: 'too-large' };
+
+  const Diff = _require('diff');
+  const displayPath = filePath.replace(/^package\//, '');
+  const oldText = oldContent ? oldContent.toString('utf8') : '';
+  const newText = newContent ? newContent.toString('utf8') : '';
+  const structured = Diff.structuredPatch(`a/${displayPath}`, `b/${displayPath}`, oldText, newText, '', '', { context: 3 });
+
+  const lines = [oldContent ? `--- a/${displayPath}` : '--- /dev/null', newContent ? `+++ b/${displayPath}` : '+++ /dev/null'];
+  let linesAdded = 0;
+  let linesRemoved = 0;
+  for (let i = 0; i < structured.hunks.length; i++) {
+    const hunk = structured.hunks[i];
+    lines.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+    for (let j = 0; j < hunk.lines.length; j++) {
+      const line: string = hunk.lines[j];
+      if (line.charAt(0) === '+') linesAdded++;
+      else if (line.charAt(0) === '-') linesRemoved++;
+      lines.push(line);
+    }
+  }
+
+  return { patch: lines.join('\n'), linesAdded, linesRemoved };
+}
+
 /**
  * Hash a buffer using SHA-512
  */
@@ -159,6 +384,8 @@ export function getFileChangeSummary(changes: FileChange[]): string {
   const added = changes.filter((c) => c.action === 'added');
   const removed = changes.filter((c) => c.action === 'removed');
   const modified = changes.filter((c) => c.action === 'modified');
+  const modeChanged = changes.filter((c) => c.action === 'mode-changed');
+  const renamed = changes.filter((c) => c.action === 'renamed');
 
   const parts: string[] = [];
 
@@ -171,6 +398,12 @@ export function getFileChangeSummary(changes: FileChange[]): string {
   if (modified.length > 0) {
     parts.push(`${modified.length} modified`);
   }
+  if (renamed.length > 0) {
+    parts.push(`${renamed.length} renamed`);
+  }
+  if (modeChanged.length > 0) {
+    parts.push(`${modeChanged.length} mode changed`);
+  }
 
   return `Files: ${parts.join(', ')} (${changes.length} total)`;
 }
@@ -179,15 +412,19 @@ export function getFileChangeSummary(changes: FileChange[]): string {
  * Check if changes are only in package.json
  */
 export function isOnlyPackageJsonChange(changes: FileChange[]): boolean {
-  if (changes.length === 0) return false;
+  let hasPackageJsonChange = false;
 
   for (let i = 0; i < changes.length; i++) {
+    // Informational (ignored) changes do not count
+    if (changes[i].significance === 'informational') continue;
+
     const path = changes[i].path;
     if (path !== 'package/package.json' && path.indexOf('/package.json') !== path.length - 13) {
       return false;
     }
+    hasPackageJsonChange = true;
   }
-  return true;
+  return hasPackageJsonChange;
 }
 
 /**
@@ -199,12 +436,22 @@ export function isOnlyPackageJsonChange(changes: FileChange[]): boolean {
 export async function extractPackageJson(tarball: Buffer): Promise<unknown> {
   const files = await extractTarball(tarball);
 
-  // Look for package.json in the tarball
-  const pkgJsonPath = Object.keys(files).find((p) => p === 'package/package.json' || p.indexOf('/package.json') === p.length - 13);
+  // Look for the root package.json in the tarball (nested ones like dist/cjs/package.json are not the manifest)
+  const pkgJsonPath = Object.keys(files).find((p) => p.indexOf('/package.json') === p.length - 13 && p.indexOf('/') === p.length - 13);
 
   if (!pkgJsonPath || !files[pkgJsonPath]) {
     throw new Error('package.json not found in tarball');
   }
 
-  return JSON.parse(files[pkgJsonPath].toString('utf8'));
+  return JSON.parse(files[pkgJsonPath].content.toString('utf8'));
+}
+
+/**
+ * List the files in a tarball
+ *
+ * @param tarball - Tarball as Buffer (gzipped)
+ * @returns Tarball paths, including the package/ prefix
+ */
+export async function listTarballFiles(tarball: Buffer): Promise<string[]> {
+  return Object.keys(await extractTarball(tarball));
 }
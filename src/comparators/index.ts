@@ -2,20 +2,27 @@
  * Comparators - Core comparison logic for npm-needs-publish
  */
 
+export { recommendBump } from './bump.ts';
+export { compareDeclarations, extractDeclarationExports } from './declaration.ts';
 export {
   compareDependencies,
   getDependencyChangeSummary,
   hasSignificantDependencyChanges,
 } from './dependency.ts';
+export { validateEntryPoints } from './entry-points.ts';
+export { compareExports, compareImports } from './exports.ts';
 export {
   comparePackageFiles,
+  createFileDiff,
   extractPackageJson,
   getFileChangeSummary,
   hashBuffer,
   isOnlyPackageJsonChange,
+  listTarballFiles,
 } from './file-content.ts';
 
 export {
+  applyPublishConfig,
   comparePackageJson,
   isSignificantField,
 } from './package-json.ts';
@@ -23,5 +30,6 @@ export {
   compareVersionSpecifiers,
   comparisonToSemanticChange,
   parseVersionSpecifier,
+  resolveWorkspaceSpecifier,
   type SemanticChangeOptions,
 } from './version-specifier.ts';
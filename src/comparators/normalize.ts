@@ -0,0 +1,175 @@
+/**
+ * Content normalization for file comparison
+ *
+ * Files whose bytes differ but which are equal after normalization are reported
+ * as informational changes, listing the normalizations that made them equal.
+ *
+ * JSON normalization (opt-in, .json files other than the root package.json, which is compared semantically):
+ * - json: same parsed value, ignoring key order and formatting
+ *
+ * Declaration normalization (.d.ts files, see declaration.ts):
+ * - declaration: same statements and JSDoc, ignoring other comments, formatting and statement order
+ *
+ * Text normalizations (text files only):
+ * - bom: leading UTF-8 byte order mark
+ * - eol: CRLF and CR line endings
+ * - trailing-whitespace: spaces and tabs at the end of lines
+ * - trailing-newline: line breaks at the end of the file
+ *
+ * Line normalizers (text files only, applied before the text normalizations):
+ * regex replace rules run on each line, either built-in presets or custom rules
+ * - banner-timestamp: ISO 8601 timestamps in comment lines, e.g. a `/* built 2026-10-19T08:00:00Z` banner
+ * - source-mapping-url: `//# sourceMappingURL=` and `/*# sourceMappingURL=` targets (e.g. hashed map names)
+ */
+
+import type { FileCompareOptions, LineNormalizer } from '../types.ts';
+import { declarationsEqual, isDeclarationFile } from './declaration.ts';
+import { deepEqual } from './package-json.ts';
+
+const TEXT_NORMALIZERS: Record<string, (text: string) => string> = {
+  bom: (text) => (text.charCodeAt(0) === 0xfeff ? text.slice(1) : text),
+  eol: (text) => text.replace(/\r\n?/g, '\n'),
+  'trailing-whitespace': (text) => text.replace(/[ \t]+(?=\r|\n|$)/g, ''),
+  'trailing-newline': (text) => text.replace(/[\r\n]+$/, ''),
+};
+
+/**
+ * Built-in line normalizers, by name
+ */
+export const LINE_NORMALIZER_PRESETS: Record<string, LineNormalizer> = {
+  'banner-timestamp': {
+    name: 'banner-timestamp',
+    pattern: /^(\s*(?:\/\/|\/\*|\*).*?)\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/,
+    replacement: '$1<timestamp>',
+  },
+  'source-mapping-url': {
+    name: 'source-mapping-url',
+    pattern: /^(\s*(?:\/\/|\/\*)[#@]\s*sourceMappingURL=).*$/,
+    replacement: '$1<url>',
+  },
+};
+
+/**
+ * Resolve line normalizer presets and compile custom rules
+ *
+ * @param specs - Preset names or custom rules (string patterns replace every match in a line)
+ * @returns Line normalizers by name, in the given order
+ */
+export function resolveLineNormalizers(specs?: Array<string | LineNormalizer>): Record<string, (text: string) => string> {
+  const normalizers: Record<string, (text: string) => string> = {};
+  if (!specs) return normalizers;
+
+  for (let i = 0; i < specs.length; i++) {
+    const spec = specs[i];
+    const rule = typeof spec === 'string' ? LINE_NORMALIZER_PRESETS[spec] : spec;
+    if (!rule) throw new Error(`Unknown line normalizer preset: ${spec} (expected ${Object.keys(LINE_NORMALIZER_PRESETS).join(', ')})`);
+
+    const regex = typeof rule.pattern === 'string' ? new RegExp(rule.pattern, 'g') : rule.pattern;
+    const replacement = rule.replacement || '';
+    normalizers[rule.name] = (text) => text.replace(/[^\r\n]+/g, (line) => line.replace(regex, replacement));
+  }
+  return normalizers;
+}
+
+/**
+ * Detect binary content the way git does: a NUL byte in the first 8000 bytes
+ */
+export function isBinary(content: Buffer | undefined): boolean {
+  if (!content) return false;
+  const length = Math.min(content.length, 8000);
+  for (let i = 0; i < length; i++) {
+    if (content[i] === 0) return true;
+  }
+  return false;
+}
+
+/**
+ * Apply normalizers in order until two texts are equal
+ *
+ * @returns Normalizations that changed either text, or undefined if the texts still differ
+ */
+function applyNormalizers(localText: string, registryText: string, normalizers: Record<string, (text: string) => string>, skip?: string): string[] | undefined {
+  const applied: string[] = [];
+  const names = Object.keys(normalizers);
+  for (let i = 0; i < names.length && localText !== registryText; i++) {
+    if (names[i] === skip) continue;
+    const normalizedLocal = normalizers[names[i]](localText);
+    const normalizedRegistry = normalizers[names[i]](registryText);
+    if (normalizedLocal !== localText || normalizedRegistry !== registryText) applied.push(names[i]);
+    localText = normalizedLocal;
+    registryText = normalizedRegistry;
+  }
+
+  return localText === registryText ? applied : undefined;
+}
+
+/**
+ * Find the text normalizations under which two text files are equal
+ * Normalizations are applied in order until the files are equal; those that changed either file are reported,
+ * except line normalizers that only rewrote lines the files already shared.
+ *
+ * @returns Normalizations that made the files equal, or undefined if they still differ (or are binary)
+ */
+function getTextNormalizations(localContent: Buffer, registryContent: Buffer, lineNormalizers: Record<string, (text: string) => string>, normalizeText?: boolean): string[] | undefined {
+  if (isBinary(localContent) || isBinary(registryContent)) return undefined;
+
+  const normalizers: Record<string, (text: string) => string> = {};
+  const lineNames = Object.keys(lineNormalizers);
+  for (let i = 0; i < lineNames.length; i++) normalizers[lineNames[i]] = lineNormalizers[lineNames[i]];
+  if (normalizeText) {
+    const textNames = Object.keys(TEXT_NORMALIZERS);
+    for (let i = 0; i < textNames.length; i++) normalizers[textNames[i]] = TEXT_NORMALIZERS[textNames[i]];
+  }
+
+  const localText = localContent.toString('utf8');
+  const registryText = registryContent.toString('utf8');
+  const applied = applyNormalizers(localText, registryText, normalizers);
+  if (!applied) return undefined;
+
+  // A line normalizer is only reported if the files differ without it
+  const result: string[] = [];
+  for (let i = 0; i < applied.length; i++) {
+    if (lineNormalizers[applied[i]] && applyNormalizers(localText, registryText, normalizers, applied[i])) continue;
+    result.push(applied[i]);
+  }
+  return result;
+}
+
+/**
+ * Check whether two JSON files hold the same value
+ *
+ * @returns ['json'] if equal when parsed, otherwise undefined (also for invalid JSON)
+ */
+function getJsonNormalizations(localContent: Buffer, registryContent: Buffer): string[] | undefined {
+  try {
+    // Strip a BOM, which JSON.parse rejects
+    const localValue = JSON.parse(localContent.toString('utf8').replace(/^\ufeff/, ''));
+    const registryValue = JSON.parse(registryContent.toString('utf8').replace(/^\ufeff/, ''));
+    return deepEqual(localValue, registryValue) ? ['json'] : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the enabled normalizations under which two versions of a file are equal
+ *
+ * @param filePath - Path in the tarball
+ * @param localContent - Local file content
+ * @param registryContent - Registry file content
+ * @param options - Enabled normalizations (JSON is off unless normalizeJson is true; declarations are on unless compareDeclarations is false)
+ * @param lineNormalizers - Resolved options.lineNormalizers (see resolveLineNormalizers)
+ * @returns Normalizations that made the files equal, or undefined if they still differ
+ */
+export function findNormalizations(filePath: string, localContent: Buffer, registryContent: Buffer, options?: FileCompareOptions, lineNormalizers: Record<string, (text: string) => string> = {}): string[] | undefined {
+  const isJson = filePath.slice(-5) === '.json' && filePath !== 'package/package.json';
+  if (isJson && options?.normalizeJson === true) {
+    const normalizations = getJsonNormalizations(localContent, registryContent);
+    if (normalizations) return normalizations;
+  }
+
+  if (isDeclarationFile(filePath) && options?.compareDeclarations !== false && declarationsEqual(localContent.toString('utf8'), registryContent.toString('utf8'))) return ['declaration'];
+
+  if (options?.normalizeText || Object.keys(lineNormalizers).length > 0) return getTextNormalizations(localContent, registryContent, lineNormalizers, options?.normalizeText);
+  return undefined;
+}
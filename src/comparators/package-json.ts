@@ -2,17 +2,34 @@
  * Package.json field comparison with significance classification
  *
  * Significant fields (affect consumers):
- * - name, version, main, module, browser, exports, types, typings, type
- * - bin, files, engines, os, cpu, peerDependenciesMeta, packageManager
+ * - name, version, main, module, browser, exports, imports, types, typings, typesVersions, type
+ * - sideEffects, bin, man, directories, files, engines, os, cpu, peerDependenciesMeta, packageManager
  *
  * Not significant (metadata only):
  * - devDependencies, scripts, repository, homepage, bugs, author
- * - contributors, license, keywords, description, readme
+ * - contributors, license, keywords, description, readme, workspaces
  * - Internal npm fields (_id, _resolved, dist, etc.)
+ *
+ * engines is compared by semver range (narrowed: critical, widened: significant) and
+ * os/cpu as sets of supported platforms honoring `!` negations (dropped: critical).
+ *
+ * exports is compared per subpath and condition set by resolved target (see exports.ts);
+ * adding or removing the whole field is a single critical change. imports is resolved the
+ * same way, per `#specifier`.
+ *
+ * sideEffects and man are compared as sets, directories by its bin and man entries only,
+ * and typesVersions by range (keys in order, equivalent ranges equal).
+ *
+ * Entry point fields are compared after applying publishConfig overrides,
+ * which pnpm and yarn write into the published manifest, and with their paths
+ * normalized (`cli.js`, `./cli.js` and `bin/../cli.js` are the same file).
  */
 
+import path from 'path';
 import type { CompareOptions, DependencyChange, FieldChange, PackageJson, PackageJsonComparison } from '../types.ts';
 import { compareDependencies, getDependencyChangeSummary } from './dependency.ts';
+import { compareExports, compareImports } from './exports.ts';
+import { compareSemverRanges } from './version-specifier.ts';
 
 /**
  * Fields that affect consumers of the package
@@ -29,10 +46,17 @@ const SIGNIFICANT_FIELDS: Record<string, boolean> = {
   exports: true,
   types: true,
   typings: true,
+  typesVersions: true,
   type: true,
+  imports: true,
+
+  // Bundler tree-shaking
+  sideEffects: true,
 
   // CLI
   bin: true,
+  man: true,
+  directories: true,
 
   // Package contents
   files: true,
@@ -83,6 +107,12 @@ const NEVER_SIGNIFICANT_FIELDS: Record<string, boolean> = {
   readme: true,
   readmeFilename: true,
 
+  // Publish settings (overrides are applied before comparing)
+  publishConfig: true,
+
+  // Monorepo layout (only used when installing the repository itself)
+  workspaces: true,
+
   // npm internal
   private: true,
   _id: true,
@@ -98,17 +128,125 @@ const NEVER_SIGNIFICANT_FIELDS: Record<string, boolean> = {
   _npmOperationalInternal: true,
 };
 
+/**
+ * Manifest fields holding package paths (bin, browser and exports are nested)
+ */
+const PATH_FIELDS = ['main', 'module', 'types', 'typings'];
+
+/**
+ * Equality of fields whose spelling can change without changing their meaning
+ */
+const FIELD_EQUIVALENCE: Record<string, (localValue: unknown, registryValue: unknown) => boolean> = {
+  // Globs of files with side effects; order is irrelevant and [] means none
+  sideEffects: (localValue, registryValue) => deepEqual(normalizeSideEffects(localValue), normalizeSideEffects(registryValue)),
+  // Man pages to install; a single page may be written as a string
+  man: (localValue, registryValue) => deepEqual(toSortedSet(typeof localValue === 'string' ? [localValue] : localValue), toSortedSet(typeof registryValue === 'string' ? [registryValue] : registryValue)),
+  // Only directories.bin and directories.man are used by npm when installing
+  directories: (localValue, registryValue) => deepEqual(pickInstalledDirectories(localValue), pickInstalledDirectories(registryValue)),
+  // TypeScript picks the first matching version range, so entry order matters but range spelling does not
+  typesVersions: typesVersionsEqual,
+};
+
+/**
+ * Manifest fields replaced by their publishConfig value at publish time (pnpm, yarn)
+ */
+const PUBLISH_CONFIG_FIELDS = ['bin', 'main', 'module', 'browser', 'exports', 'imports', 'types', 'typings', 'typesVersions', 'type', 'esnext', 'es2015', 'unpkg', 'umd:main', 'os', 'cpu'];
+
+/**
+ * Apply publishConfig overrides to a manifest, as pnpm and yarn do when publishing
+ *
+ * @param pkg - Package.json (returned unchanged without overrides)
+ * @returns Package.json as it would be published
+ */
+export function applyPublishConfig(pkg: PackageJson): PackageJson {
+  const publishConfig = pkg.publishConfig;
+  if (!publishConfig) return pkg;
+
+  const published = { ...pkg } as Record<string, unknown>;
+  for (let i = 0; i < PUBLISH_CONFIG_FIELDS.length; i++) {
+    const field = PUBLISH_CONFIG_FIELDS[i];
+    if (publishConfig[field] !== undefined) published[field] = publishConfig[field];
+  }
+  return published as unknown as PackageJson;
+}
+
+/**
+ * Normalize how a package path is spelled (`cli.js`, `./cli.js` and `bin/../cli.js` all become `./cli.js`)
+ */
+function normalizePath(target: string): string {
+  const normalized = path.posix.normalize(target);
+  if (normalized === '..' || normalized.indexOf('../') === 0) return normalized;
+  return `./${normalized.replace(/^(\.\/)+/, '').replace(/^\.$/, '')}`;
+}
+
+/**
+ * Normalize relative paths in an exports value, keeping conditions and subpath keys
+ */
+function normalizeExportsPaths(value: unknown): unknown {
+  if (typeof value === 'string') return value.charAt(0) === '.' ? normalizePath(value) : value;
+  if (Array.isArray(value)) return value.map(normalizeExportsPaths);
+  if (!value || typeof value !== 'object') return value;
+
+  const normalized: Record<string, unknown> = {};
+  const keys = Object.keys(value);
+  for (let i = 0; i < keys.length; i++) normalized[keys[i]] = normalizeExportsPaths((value as Record<string, unknown>)[keys[i]]);
+  return normalized;
+}
+
+/**
+ * Normalize the spelling of path-valued manifest fields: main, module, types, typings,
+ * bin targets, browser replacements and exports targets
+ * (browser and exports entries not starting with '.' are module names and kept as is)
+ */
+function normalizeManifestPaths(pkg: PackageJson): PackageJson {
+  const normalized = { ...pkg } as Record<string, unknown>;
+
+  for (let i = 0; i < PATH_FIELDS.length; i++) {
+    const value = normalized[PATH_FIELDS[i]];
+    if (typeof value === 'string') normalized[PATH_FIELDS[i]] = normalizePath(value);
+  }
+
+  if (typeof pkg.bin === 'string') normalized.bin = normalizePath(pkg.bin);
+  else if (pkg.bin && typeof pkg.bin === 'object') {
+    const bin: Record<string, string> = {};
+    const names = Object.keys(pkg.bin);
+    for (let i = 0; i < names.length; i++) bin[names[i]] = typeof pkg.bin[names[i]] === 'string' ? normalizePath(pkg.bin[names[i]]) : pkg.bin[names[i]];
+    normalized.bin = bin;
+  }
+
+  if (typeof pkg.browser === 'string') normalized.browser = normalizePath(pkg.browser);
+  else if (pkg.browser && typeof pkg.browser === 'object') {
+    const browser: Record<string, string | false> = {};
+    const keys = Object.keys(pkg.browser);
+    for (let i = 0; i < keys.length; i++) {
+      const replacement = pkg.browser[keys[i]];
+      const key = keys[i].charAt(0) === '.' ? normalizePath(keys[i]) : keys[i];
+      browser[key] = typeof replacement === 'string' && replacement.charAt(0) === '.' ? normalizePath(replacement) : replacement;
+    }
+    normalized.browser = browser;
+  }
+
+  if (pkg.exports !== undefined) normalized.exports = normalizeExportsPaths(pkg.exports);
+  return normalized as unknown as PackageJson;
+}
+
 /**
  * Compare two package.json objects semantically
  *
- * @param local - Local package.json
- * @param registry - Registry package.json
+ * @param localManifest - Local package.json
+ * @param registryManifest - Registry package.json
  * @param options - Comparison options
  * @returns Package comparison result
  */
-export function comparePackageJson(local: PackageJson, registry: PackageJson, options?: CompareOptions): PackageJsonComparison {
+export function comparePackageJson(localManifest: PackageJson, registryManifest: PackageJson, options?: CompareOptions): PackageJsonComparison {
   const fieldChanges: FieldChange[] = [];
 
+  // Compare the manifests as consumers will see them, ignoring how paths are spelled
+  const publishedLocal = applyPublishConfig(localManifest);
+  const publishedRegistry = applyPublishConfig(registryManifest);
+  const local = normalizeManifestPaths(publishedLocal);
+  const registry = normalizeManifestPaths(publishedRegistry);
+
   // Build object of fields to check
   const fieldsToCheck: Record<string, boolean> = {};
   const significantKeys = Object.keys(SIGNIFICANT_FIELDS);
@@ -133,20 +271,29 @@ export function comparePackageJson(local: PackageJson, registry: PackageJson, op
     const localValue = (local as unknown as Record<string, unknown>)[field];
     const registryValue = (registry as unknown as Record<string, unknown>)[field];
 
+    // Exports are compared by resolution: key order matters for conditions but not for subpaths
+    if (field === 'exports' && localValue != null && registryValue != null) {
+      const exportsChanges = compareExports(localValue, registryValue);
+      for (let j = 0; j < exportsChanges.length; j++) fieldChanges.push(exportsChanges[j]);
+      continue;
+    }
+
+    if (field === 'imports') {
+      const importsChanges = compareImports(localValue, registryValue);
+      for (let j = 0; j < importsChanges.length; j++) fieldChanges.push(importsChanges[j]);
+      continue;
+    }
+
+    // Compatibility constraints are compared by the platforms and versions they admit
+    if (field === 'engines' || field === 'os' || field === 'cpu') {
+      const significance = field === 'engines' ? compareEngines(localValue, registryValue) : comparePlatforms(localValue, registryValue);
+      if (significance) fieldChanges.push({ field, oldValue: registryValue, newValue: localValue, significance });
+      continue;
+    }
+
     if (!deepEqual(localValue, registryValue)) {
-      // Special handling for 'exports' - complex conditional exports
-      if (field === 'exports') {
-        const exportsChange = compareExports(localValue, registryValue);
-        if (exportsChange.hasSignificantDifference) {
-          fieldChanges.push({
-            field,
-            oldValue: registryValue,
-            newValue: localValue,
-            significance: 'critical',
-          });
-        }
-        continue;
-      }
+      const equivalent = FIELD_EQUIVALENCE[field];
+      if (equivalent && equivalent(localValue, registryValue)) continue;
 
       // Special handling for 'bin' - normalize before comparison
       if (field === 'bin') {
@@ -159,8 +306,8 @@ export function comparePackageJson(local: PackageJson, registry: PackageJson, op
 
       fieldChanges.push({
         field,
-        oldValue: registryValue,
-        newValue: localValue,
+        oldValue: (publishedRegistry as unknown as Record<string, unknown>)[field],
+        newValue: (publishedLocal as unknown as Record<string, unknown>)[field],
         significance: getFieldSignificance(field, options?.additionalSignificantFields),
       });
     }
@@ -170,6 +317,8 @@ export function comparePackageJson(local: PackageJson, registry: PackageJson, op
   const depComparison = compareDependencies(local, registry, {
     includeOptionalDeps: options?.includeOptionalDeps,
     treatNarrowingAsEquivalent: options?.treatNarrowingAsEquivalent,
+    workspaceVersions: options?.workspaceVersions,
+    catalogs: options?.catalogs,
   });
 
   // Determine if there are significant changes
@@ -196,43 +345,133 @@ function getFieldSignificance(field: string, additionalSignificantFields?: strin
 }
 
 /**
- * Compare exports field with special handling for conditional exports
+ * Read a manifest field as an object ({} when missing or malformed)
+ */
+function toRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * Compare engines constraints by the versions they admit (semver subset in both directions):
+ * a new, narrowed or otherwise moved constraint excludes existing consumers, a widened or
+ * removed one only admits new ones
+ *
+ * @returns 'critical' when any version is no longer admitted, 'significant' when only widened, undefined when equivalent
  */
-function compareExports(localExports: unknown, registryExports: unknown): { hasSignificantDifference: boolean } {
-  // If both are undefined/null, no difference
-  if (localExports == null && registryExports == null) {
-    return { hasSignificantDifference: false };
+function compareEngines(localEngines: unknown, registryEngines: unknown): FieldChange['significance'] | undefined {
+  const local = toRecord(localEngines);
+  const registry = toRecord(registryEngines);
+  let significance: FieldChange['significance'] | undefined;
+
+  const names = Object.keys(local);
+  for (let i = 0; i < names.length; i++) {
+    if (!(names[i] in registry)) return 'critical';
+
+    const comparison = compareSemverRanges(String(registry[names[i]]), String(local[names[i]]));
+    if (comparison.equivalent) continue;
+    if (comparison.relation !== 'widened') return 'critical';
+    significance = 'significant';
   }
 
-  // If only one is defined, that's significant
-  if (localExports == null || registryExports == null) {
-    return { hasSignificantDifference: true };
+  const registryNames = Object.keys(registry);
+  for (let i = 0; i < registryNames.length; i++) {
+    if (!(registryNames[i] in local)) significance = 'significant';
   }
+  return significance;
+}
 
-  // Normalize exports to object form
-  const normalizedLocal = normalizeExports(localExports);
-  const normalizedRegistry = normalizeExports(registryExports);
+/**
+ * Platforms listed in os/cpu: allowed names, and names excluded with `!`
+ */
+interface PlatformSet {
+  allowed: Record<string, boolean>;
+  denied: Record<string, boolean>;
+  /** Whether any platform is allowed by name (otherwise all but the denied ones are) */
+  restricted: boolean;
+}
+
+function toPlatformSet(list: unknown): PlatformSet {
+  const platforms: PlatformSet = { allowed: {}, denied: {}, restricted: false };
+  const names = Array.isArray(list) ? list : [];
+  for (let i = 0; i < names.length; i++) {
+    const name = String(names[i]);
+    if (name.charAt(0) === '!') platforms.denied[name.slice(1)] = true;
+    else {
+      platforms.allowed[name] = true;
+      platforms.restricted = true;
+    }
+  }
+  return platforms;
+}
 
-  // Deep compare normalized exports
-  return { hasSignificantDifference: !deepEqual(normalizedLocal, normalizedRegistry) };
+function supportsPlatform(platforms: PlatformSet, name: string): boolean {
+  return (!platforms.restricted || platforms.allowed[name] === true) && !platforms.denied[name];
 }
 
 /**
- * Normalize exports field to object form
+ * Compare os/cpu lists as sets of supported platforms (order and duplicates are ignored)
+ *
+ * @returns 'critical' when a platform is dropped, 'significant' when platforms are only added, undefined when equivalent
  */
-function normalizeExports(exports: unknown): unknown {
-  // String exports: "./index.js" -> { ".": "./index.js" }
-  if (typeof exports === 'string') {
-    return { '.': exports };
+function comparePlatforms(localList: unknown, registryList: unknown): FieldChange['significance'] | undefined {
+  const local = toPlatformSet(localList);
+  const registry = toPlatformSet(registryList);
+
+  // '' stands for every platform neither version names
+  const names = [''].concat(Object.keys(local.allowed), Object.keys(local.denied), Object.keys(registry.allowed), Object.keys(registry.denied));
+  let widened = false;
+  for (let i = 0; i < names.length; i++) {
+    const before = supportsPlatform(registry, names[i]);
+    const after = supportsPlatform(local, names[i]);
+    if (before && !after) return 'critical';
+    if (after && !before) widened = true;
   }
+  return widened ? 'significant' : undefined;
+}
 
-  // Array exports are less common but valid
-  if (Array.isArray(exports)) {
-    return { '.': exports };
+/**
+ * Sort and deduplicate a list of strings (other values are returned unchanged)
+ */
+function toSortedSet(value: unknown): unknown {
+  if (!Array.isArray(value)) return value;
+
+  const seen: Record<string, boolean> = {};
+  const result: string[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const item = String(value[i]);
+    if (seen[item]) continue;
+    seen[item] = true;
+    result.push(item);
   }
+  return result.sort();
+}
 
-  // Already an object
-  return exports;
+function normalizeSideEffects(sideEffects: unknown): unknown {
+  if (Array.isArray(sideEffects) && sideEffects.length === 0) return false;
+  return toSortedSet(sideEffects);
+}
+
+function pickInstalledDirectories(directories: unknown): Record<string, unknown> {
+  const record = toRecord(directories);
+  return { bin: record.bin, man: record.man };
+}
+
+/**
+ * Compare typesVersions entry by entry, treating range keys that admit the same versions
+ * (`>=4.2` and `>= 4.2.0`, but not `^4.2` and `^4.9`) as equal
+ */
+function typesVersionsEqual(localValue: unknown, registryValue: unknown): boolean {
+  const local = toRecord(localValue);
+  const registry = toRecord(registryValue);
+  const localRanges = Object.keys(local);
+  const registryRanges = Object.keys(registry);
+  if (localRanges.length !== registryRanges.length) return false;
+
+  for (let i = 0; i < localRanges.length; i++) {
+    if (!deepEqual(local[localRanges[i]], registry[registryRanges[i]])) return false;
+    if (!compareSemverRanges(registryRanges[i], localRanges[i]).equivalent) return false;
+  }
+  return true;
 }
 
 /**
@@ -257,9 +496,9 @@ function normalizeBin(bin: unknown, packageName: string): Record<string, string>
 }
 
 /**
- * Deep equality comparison
+ * Deep equality comparison (object key order is ignored, array order is not)
  */
-function deepEqual(a: unknown, b: unknown): boolean {
+export function deepEqual(a: unknown, b: unknown): boolean {
   // Identical references or primitives
   if (a === b) return true;
 
@@ -13,11 +13,15 @@
  * - File: file:../local
  * - Alias: npm:package@version
  * - Workspace: workspace:*, workspace:^
+ * - Catalog: catalog:, catalog:react18 (pnpm)
+ * - Patch: patch:lodash@npm%3A4.17.21#./patches/lodash.patch (yarn)
+ * - Portal/Link: portal:../local, link:../local
  * - Tag: latest, next
  * - URL: http(s) URLs to tarballs
  */
 
 import Module from 'module';
+import path from 'path';
 import type { CompareSpecifierOptions, ParsedVersionSpecifier, SemanticChange, SpecifierComparison, VersionSpecifierType } from '../types.ts';
 
 const _require = typeof require === 'undefined' ? Module.createRequire(import.meta.url) : require;
@@ -58,6 +62,51 @@ export function parseVersionSpecifier(spec: string, where?: string): ParsedVersi
     };
   }
 
+  // Handle pnpm catalog protocol (not handled by npa)
+  if (spec.startsWith('catalog:')) {
+    return {
+      type: 'catalog',
+      raw: spec,
+      normalized: spec,
+      catalogName: spec.slice(8) || 'default',
+    };
+  }
+
+  // Handle yarn patch protocol: patch:<source>#<patch path>[::<metadata>]
+  if (spec.startsWith('patch:')) {
+    const hashIndex = spec.indexOf('#');
+    const rawSource = hashIndex >= 0 ? spec.slice(6, hashIndex) : spec.slice(6);
+    let source = rawSource;
+    try {
+      source = decodeURIComponent(rawSource);
+    } catch {
+      // Malformed escape (e.g. a stray %): keep the source as written
+    }
+    const patchPath = hashIndex >= 0 ? spec.slice(hashIndex + 1).split('::')[0] : '';
+    const atIndex = source.lastIndexOf('@');
+    const sourceRange = atIndex > 0 ? source.slice(atIndex + 1).replace(/^npm:/, '') : undefined;
+    return {
+      type: 'patch',
+      raw: spec,
+      normalized: `patch:${source}#${path.posix.normalize(patchPath || '.')}`,
+      patchInfo: {
+        source,
+        range: sourceRange,
+        patchPath,
+      },
+    };
+  }
+
+  // Handle yarn portal: and yarn/pnpm link: protocols (local paths)
+  if (spec.startsWith('portal:') || spec.startsWith('link:')) {
+    const type = spec.startsWith('portal:') ? 'portal' : 'link';
+    return {
+      type,
+      raw: spec,
+      normalized: `${type}:${path.posix.normalize(spec.slice(type.length + 1) || '.')}`,
+    };
+  }
+
   // Handle empty string
   if (!spec || spec === '') {
     return {
@@ -185,6 +234,26 @@ export function parseVersionSpecifier(spec: string, where?: string): ParsedVersi
   }
 }
 
+/**
+ * Resolve a workspace: specifier to the range pnpm and yarn write at pack time
+ *
+ * - workspace:* → 1.4.2
+ * - workspace:^ → ^1.4.2
+ * - workspace:~ → ~1.4.2
+ * - workspace:1.x → 1.x
+ *
+ * @param spec - Version specifier (returned unchanged if not a workspace: specifier)
+ * @param version - Local version of the workspace package
+ */
+export function resolveWorkspaceSpecifier(spec: string, version: string): string {
+  if (!spec.startsWith('workspace:')) return spec;
+
+  const range = spec.slice(10) || '*';
+  if (range === '*') return version;
+  if (range === '^' || range === '~') return `${range}${version}`;
+  return range;
+}
+
 /**
  * Detect the subtype of a semver range
  */
@@ -237,7 +306,12 @@ export function compareVersionSpecifiers(specA: string, specB: string, options?:
 
   // Handle workspace protocol specially
   if (parsedA.type === 'workspace' || parsedB.type === 'workspace') {
-    return compareWorkspaceSpecs(parsedA, parsedB);
+    return compareWorkspaceSpecs(parsedA, parsedB, options);
+  }
+
+  // Handle catalog protocol - compare the catalog ranges
+  if (parsedA.type === 'catalog' || parsedB.type === 'catalog') {
+    return compareCatalogSpecs(parsedA, parsedB, options);
   }
 
   // Handle alias types - compare underlying specs
@@ -273,6 +347,13 @@ export function compareVersionSpecifiers(specA: string, specB: string, options?:
     case 'url':
       return compareUrlSpecs(parsedA, parsedB);
 
+    case 'patch':
+      return comparePatchSpecs(parsedA, parsedB);
+
+    case 'portal':
+    case 'link':
+      return comparePathSpecs(parsedA, parsedB);
+
     default:
       return { equivalent: false, relation: 'unknown-type' };
   }
@@ -303,6 +384,14 @@ function getSpecCategory(type: VersionSpecifierType): string {
       return 'alias';
     case 'workspace':
       return 'workspace';
+    case 'catalog':
+      return 'catalog';
+    case 'patch':
+      return 'patch';
+    case 'portal':
+      return 'portal';
+    case 'link':
+      return 'link';
     default:
       return 'unknown';
   }
@@ -312,26 +401,8 @@ function getSpecCategory(type: VersionSpecifierType): string {
  * Compare two semver-based specifiers
  */
 function compareSemverSpecs(specA: string, specB: string): SpecifierComparison {
-  const semver = getSemver();
-
-  let rangeA: InstanceType<typeof semver.Range>;
-  let rangeB: InstanceType<typeof semver.Range>;
-
-  try {
-    rangeA = new semver.Range(specA, { loose: true });
-    rangeB = new semver.Range(specB, { loose: true });
-  } catch {
-    // One or both are not valid semver ranges
-    return { equivalent: false, relation: 'incompatible-types' };
-  }
-
-  // Normalize to canonical form for string comparison
-  const normalizedA = rangeA.range;
-  const normalizedB = rangeB.range;
-
-  if (normalizedA === normalizedB) {
-    return { equivalent: true, relation: 'normalized-equal' };
-  }
+  const comparison = compareSemverRanges(specA, specB);
+  if (comparison.equivalent || comparison.relation === 'incompatible-types') return comparison;
 
   // Check if both are caret ranges with same major version
   // This handles ncu -u scenarios like ^4.17.0 → ^4.17.21 or ^4.17.0 → ^4.18.0
@@ -353,20 +424,55 @@ function compareSemverSpecs(specA: string, specB: string): SpecifierComparison {
     }
   }
 
+  return comparison;
+}
+
+/**
+ * Compare two semver ranges by the versions they admit, without the dependency-update
+ * rules of compareVersionSpecifiers (^4.17.0 → ^4.18.0 is narrowed here, not equivalent)
+ *
+ * @param specA - Old range
+ * @param specB - New range
+ * @returns 'narrowed' when B admits fewer versions, 'widened' when more; invalid ranges are 'incompatible-types'
+ */
+export function compareSemverRanges(specA: string, specB: string): SpecifierComparison {
+  if (specA === specB) {
+    return { equivalent: true, relation: 'identical' };
+  }
+
+  const semver = getSemver();
+
+  let rangeA: InstanceType<typeof semver.Range>;
+  let rangeB: InstanceType<typeof semver.Range>;
+
+  try {
+    rangeA = new semver.Range(specA, { loose: true });
+    rangeB = new semver.Range(specB, { loose: true });
+  } catch {
+    // One or both are not valid semver ranges
+    return { equivalent: false, relation: 'incompatible-types' };
+  }
+
+  // Normalize to canonical form for string comparison
+  if (rangeA.range === rangeB.range) {
+    return { equivalent: true, relation: 'normalized-equal' };
+  }
+
   // Use semver.subset to determine relationship
   // A is subset of B means A is more restrictive (all versions in A are in B)
   // We need to check both directions to determine equivalence
+  // Prereleases only count where a range admits them (1.1.0-beta.0 is not inside ^1.0.0, as npm install sees it)
   let aSubsetB = false;
   let bSubsetA = false;
 
   try {
-    aSubsetB = semver.subset(rangeA, rangeB, { includePrerelease: true });
+    aSubsetB = semver.subset(rangeA, rangeB, { includePrerelease: false });
   } catch {
     // subset can throw on complex ranges
   }
 
   try {
-    bSubsetA = semver.subset(rangeB, rangeA, { includePrerelease: true });
+    bSubsetA = semver.subset(rangeB, rangeA, { includePrerelease: false });
   } catch {
     // subset can throw on complex ranges
   }
@@ -445,27 +551,100 @@ function compareFileSpecs(parsedA: ParsedVersionSpecifier, parsedB: ParsedVersio
 
 /**
  * Compare workspace specifiers
+ * Resolves workspace:*, workspace:^ and workspace:~ against the local version when known
+ * (as pnpm and yarn rewrite them at pack time), so workspace:^ matches a published ^1.4.2
  */
-function compareWorkspaceSpecs(parsedA: ParsedVersionSpecifier, parsedB: ParsedVersionSpecifier): SpecifierComparison {
-  // Both must be workspace
-  if (parsedA.type !== 'workspace' || parsedB.type !== 'workspace') {
-    return { equivalent: false, relation: 'incompatible-types' };
+function compareWorkspaceSpecs(parsedA: ParsedVersionSpecifier, parsedB: ParsedVersionSpecifier, options?: CompareSpecifierOptions): SpecifierComparison {
+  // Identical workspace ranges need no resolution
+  if (parsedA.type === 'workspace' && parsedB.type === 'workspace' && (parsedA.workspaceRange || '*') === (parsedB.workspaceRange || '*')) {
+    return { equivalent: true, relation: 'identical' };
   }
 
-  // Compare the underlying workspace ranges
-  const rangeA = parsedA.workspaceRange || '*';
-  const rangeB = parsedB.workspaceRange || '*';
-
-  if (rangeA === rangeB) {
-    return { equivalent: true, relation: 'identical' };
+  const resolvedA = resolveWorkspaceRange(parsedA, options?.workspaceVersion);
+  const resolvedB = resolveWorkspaceRange(parsedB, options?.workspaceVersion);
+  if (resolvedA !== undefined && resolvedB !== undefined) {
+    return compareVersionSpecifiers(resolvedA, resolvedB, { where: options?.where });
   }
 
   // Workspace ranges like * and ^ have specific meanings
   // * = use exact version from workspace
   // ^ = use caret range
   // ~ = use tilde range
-  // For comparison purposes, treat different symbols as different
-  return { equivalent: false, relation: 'disjoint', detail: 'Different workspace specifiers' };
+  // Without the local version, treat different symbols as different
+  if (parsedA.type === 'workspace' && parsedB.type === 'workspace') {
+    return { equivalent: false, relation: 'disjoint', detail: 'Different workspace specifiers' };
+  }
+  return { equivalent: false, relation: 'incompatible-types' };
+}
+
+/**
+ * Concrete range for a parsed specifier: workspace ranges are resolved, others returned as-is
+ *
+ * @returns The range, or undefined for workspace:*, workspace:^ or workspace:~ without a known version
+ */
+function resolveWorkspaceRange(parsed: ParsedVersionSpecifier, version?: string): string | undefined {
+  if (parsed.type !== 'workspace') return parsed.raw;
+
+  const range = parsed.workspaceRange || '*';
+  if (range === '*' || range === '^' || range === '~') {
+    return version ? resolveWorkspaceSpecifier(parsed.raw, version) : undefined;
+  }
+  return range;
+}
+
+/**
+ * Compare catalog specifiers
+ * Resolves catalog: and catalog:<name> to the range defined in pnpm-workspace.yaml when known
+ */
+function compareCatalogSpecs(parsedA: ParsedVersionSpecifier, parsedB: ParsedVersionSpecifier, options?: CompareSpecifierOptions): SpecifierComparison {
+  // Same catalog needs no resolution
+  if (parsedA.type === 'catalog' && parsedB.type === 'catalog' && parsedA.catalogName === parsedB.catalogName) {
+    return { equivalent: true, relation: 'identical' };
+  }
+
+  const resolvedA = parsedA.type === 'catalog' ? options?.catalogEntries?.[parsedA.catalogName || 'default'] : parsedA.raw;
+  const resolvedB = parsedB.type === 'catalog' ? options?.catalogEntries?.[parsedB.catalogName || 'default'] : parsedB.raw;
+  if (resolvedA !== undefined && resolvedB !== undefined) {
+    return compareVersionSpecifiers(resolvedA, resolvedB, { where: options?.where, workspaceVersion: options?.workspaceVersion });
+  }
+
+  // Unknown catalog entries cannot be compared
+  if (parsedA.type === 'catalog' && parsedB.type === 'catalog') {
+    return { equivalent: false, relation: 'disjoint', detail: 'Different catalogs' };
+  }
+  return { equivalent: false, relation: 'incompatible-types' };
+}
+
+/**
+ * Compare patch specifiers
+ * Same patch file: compare the patched dependency ranges; different patch files are different
+ */
+function comparePatchSpecs(parsedA: ParsedVersionSpecifier, parsedB: ParsedVersionSpecifier): SpecifierComparison {
+  if (parsedA.normalized === parsedB.normalized) {
+    return { equivalent: true, relation: 'identical' };
+  }
+
+  const patchA = parsedA.patchInfo;
+  const patchB = parsedB.patchInfo;
+  if (!patchA || !patchB || path.posix.normalize(patchA.patchPath) !== path.posix.normalize(patchB.patchPath)) {
+    return { equivalent: false, relation: 'disjoint', detail: 'Different patch files' };
+  }
+
+  if (patchA.range && patchB.range) {
+    return compareVersionSpecifiers(patchA.range, patchB.range);
+  }
+  return { equivalent: false, relation: 'disjoint', detail: 'Different patched dependencies' };
+}
+
+/**
+ * Compare portal:/link: specifiers
+ * Local paths are treated like file: specifiers (contents cannot be compared)
+ */
+function comparePathSpecs(parsedA: ParsedVersionSpecifier, parsedB: ParsedVersionSpecifier): SpecifierComparison {
+  if (parsedA.normalized === parsedB.normalized) {
+    return { equivalent: true, relation: 'identical' };
+  }
+  return { equivalent: false, relation: 'disjoint', detail: 'Different local paths' };
 }
 
 /**
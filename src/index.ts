@@ -18,31 +18,53 @@
  * ```
  */
 
+// Registry cache (offline mode)
+export { writeCachedPackument, writeCachedTarball } from './cache.ts';
 // Comparators
+export { recommendBump } from './comparators/bump.ts';
+export { compareDeclarations, extractDeclarationExports } from './comparators/declaration.ts';
 export { compareDependencies } from './comparators/dependency.ts';
-export { extractPackageJson } from './comparators/file-content.ts';
-export { comparePackageJson } from './comparators/package-json.ts';
-export { compareVersionSpecifiers, comparisonToSemanticChange, parseVersionSpecifier, type SemanticChangeOptions } from './comparators/version-specifier.ts';
+export { validateEntryPoints } from './comparators/entry-points.ts';
+export { compareExports, compareImports } from './comparators/exports.ts';
+export { createFileDiff, extractPackageJson } from './comparators/file-content.ts';
+export { LINE_NORMALIZER_PRESETS } from './comparators/normalize.ts';
+export { applyPublishConfig, comparePackageJson } from './comparators/package-json.ts';
+export { compareVersionSpecifiers, comparisonToSemanticChange, parseVersionSpecifier, resolveWorkspaceSpecifier, type SemanticChangeOptions } from './comparators/version-specifier.ts';
 // Main API
 export { type NeedsPublishCallback, needsPublish, needsPublishCb } from './needs-publish.ts';
+// Registry config
+export { getAuthOptions, parseNpmrc, readNpmConfig, resolveRegistry } from './npmrc.ts';
 
 // Types
 export type {
+  ApiChange,
+  BumpChanges,
+  BumpLevel,
   ChangeDetail,
   CompareOptions,
   CompareSpecifierOptions,
   DependencyChange,
   DependencyCompareOptions,
   DependencyComparison,
+  EntryPointError,
   FieldChange,
   FileChange,
+  FileCompareOptions,
   FileComparison,
+  FileDiff,
+  LineNormalizer,
   NeedsPublishOptions,
   NeedsPublishResult,
   PackageJson,
   PackageJsonComparison,
+  Packument,
   ParsedVersionSpecifier,
+  PublishStatus,
   SemanticChange,
   SpecifierComparison,
   VersionSpecifierType,
+  WorkspacePackage,
+  WorkspaceResult,
 } from './types.ts';
+// Workspace API
+export { findWorkspacePackages, type NeedsPublishWorkspacesCallback, needsPublishWorkspaces, needsPublishWorkspacesCb, readCatalogs } from './workspaces.ts';
@@ -3,29 +3,217 @@
  *
  * Algorithm:
  * 1. Fetch registry packument → if E404, return needsPublish=true (first publish)
- * 2. Version check → if different, return needsPublish=true (intentional bump)
+ *    Baseline is options.compareVersion, else the options.distTag dist-tag (default: latest)
+ * 2. Version check → if different from baseline, return needsPublish=true (intentional bump)
  * 3. Fast hash check → if identical, return needsPublish=false (no changes)
  * 4. Extract both tarballs, compare file-by-file (excluding package.json)
  * 5. If non-package.json files differ → return needsPublish=true
  * 6. If only package.json differs → do semantic comparison
+ *
+ * A local version that is already published is compared against itself unless
+ * options.compareVersion is given. Any version that reaches step 3 is already published,
+ * so a detected change is reported with blocked='version-exists' (npm publish would fail with E403).
+ *
+ * With options.baseline (a local .tgz or directory), steps 1-2 are skipped and
+ * the baseline tarball takes the place of the registry tarball.
+ *
+ * Packuments and registry tarballs are cached (see cache.ts); with options.offline
+ * they are read from the cache only.
+ *
+ * With options.validateEntryPoints, the local package is packed for every result
+ * (including first publishes and version bumps) and entry points missing from it
+ * are reported in result.errors.
  */
 
 import fs from 'fs';
 import Module from 'module';
 import path from 'path';
+import { packDirectory, readBaselineTarball } from './baseline.ts';
+import { createNotCachedError, DEFAULT_CACHE_DIR, getIntegrity, readCachedPackument, readCachedTarball, writeCachedPackument, writeCachedTarball } from './cache.ts';
 import { stringStartsWith } from './compat.ts';
-import type { ChangeDetail, NeedsPublishOptions, NeedsPublishResult, PackageJson } from './types.ts';
+import { getAuthOptions, readNpmConfig, resolveRegistry } from './npmrc.ts';
+import type { ChangeDetail, FieldChange, FileChange, NeedsPublishOptions, NeedsPublishResult, PackageJson, Packument } from './types.ts';
 
 const _require = typeof require === 'undefined' ? Module.createRequire(import.meta.url) : require;
 
+/**
+ * Registry used by pacote when none is configured
+ */
+const DEFAULT_REGISTRY = 'https://registry.npmjs.org/';
+
 /**
  * Callback type for needsPublish
  */
 export type NeedsPublishCallback = (error: Error | null, result?: NeedsPublishResult) => void;
 
+/**
+ * Report file changes as change details
+ */
+function toFileChangeDetails(fileChanges: FileChange[]): ChangeDetail[] {
+  const details: ChangeDetail[] = [];
+  for (let i = 0; i < fileChanges.length; i++) {
+    const fc = fileChanges[i];
+    details.push({
+      type: 'file' as const,
+      field: fc.path,
+      action: fc.action,
+      significance: fc.significance || 'significant',
+      ...(fc.oldMode !== undefined && { oldValue: formatMode(fc.oldMode), newValue: formatMode(fc.newMode) }),
+      ...(fc.action === 'renamed' && { oldValue: fc.oldPath, newValue: fc.path }),
+      ...(fc.normalizations && { normalizations: fc.normalizations }),
+      ...(fc.diff && { diff: fc.diff }),
+    });
+
+    // Declaration exports, removed ones break consumers
+    const apiChanges = fc.apiChanges || [];
+    for (let j = 0; j < apiChanges.length; j++) {
+      details.push({
+        type: 'api',
+        field: `${fc.path}#${apiChanges[j].name}`,
+        oldValue: apiChanges[j].oldSignature,
+        newValue: apiChanges[j].newSignature,
+        significance: apiChanges[j].action === 'removed' ? 'critical' : 'significant',
+      });
+    }
+  }
+  return details;
+}
+
+/**
+ * Field name of a field change, with the subpath and conditions of exports changes
+ * (e.g. 'exports["./utils"][node,import]')
+ */
+function formatFieldName(fc: FieldChange): string {
+  if (fc.subpath === undefined) return fc.field;
+  const conditions = fc.conditions && fc.conditions.length > 0 ? `[${fc.conditions.join(',')}]` : '';
+  return `${fc.field}["${fc.subpath}"]${conditions}`;
+}
+
+/**
+ * Permission bits in octal notation (e.g. '0755')
+ */
+function formatMode(mode: number | undefined): string | undefined {
+  return mode === undefined ? undefined : `0${mode.toString(8)}`;
+}
+
+/**
+ * Registry URL plus nerf-darted credentials, passed through to pacote
+ */
+type RegistryOptions = { registry: string } & Record<string, string>;
+
+/**
+ * Check if any published dependency uses a specifier protocol (e.g. workspace:)
+ */
+function hasSpecifierProtocol(pkg: PackageJson, protocol: string): boolean {
+  const depTypes = ['dependencies', 'peerDependencies', 'optionalDependencies'] as const;
+  for (let i = 0; i < depTypes.length; i++) {
+    const deps = pkg[depTypes[i]] || {};
+    const names = Object.keys(deps);
+    for (let j = 0; j < names.length; j++) {
+      if (stringStartsWith(deps[names[j]], protocol)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Cache directory in use: options.cacheDir, or the default one in offline mode (undefined: no cache)
+ */
+function getCacheDir(options: NeedsPublishOptions): string | undefined {
+  return options.cacheDir || (options.offline ? DEFAULT_CACHE_DIR : undefined);
+}
+
+/**
+ * Fetch a packument from the registry and refresh its cache entry (offline: read the cache only)
+ */
+async function fetchPackument(name: string, registryOptions: RegistryOptions, options: NeedsPublishOptions): Promise<Packument> {
+  const cacheDir = getCacheDir(options);
+
+  if (options.offline && cacheDir) {
+    const cached = readCachedPackument(cacheDir, registryOptions.registry, name);
+    if (!cached) throw createNotCachedError(`No cached packument for ${name} from ${registryOptions.registry}`);
+    return cached;
+  }
+
+  const pacote = _require('pacote');
+  const Arborist = _require('@npmcli/arborist');
+  const packument: Packument = await pacote.packument(name, {
+    Arborist,
+    ...registryOptions,
+  });
+  if (cacheDir) writeCachedPackument(cacheDir, registryOptions.registry, name, packument);
+  return packument;
+}
+
+/**
+ * Fetch a published tarball, reusing the cached copy with the same integrity (offline: read the cache only)
+ */
+async function fetchTarball(pkg: PackageJson, registryOptions: RegistryOptions, options: NeedsPublishOptions): Promise<Buffer> {
+  const cacheDir = getCacheDir(options);
+  const integrity = getIntegrity(pkg.dist);
+
+  const cached = cacheDir && integrity ? readCachedTarball(cacheDir, integrity) : undefined;
+  if (cached) return cached;
+  if (options.offline) throw createNotCachedError(`No cached tarball for ${pkg.name}@${pkg.version}`);
+
+  const pacote = _require('pacote');
+  const Arborist = _require('@npmcli/arborist');
+  const tarball: Buffer = await pacote.tarball(pkg.dist?.tarball, {
+    Arborist,
+    ...registryOptions,
+    integrity: pkg.dist?.integrity,
+  });
+  if (cacheDir && integrity) writeCachedTarball(cacheDir, integrity, tarball);
+  return tarball;
+}
+
+/**
+ * Report an error that prevented the comparison according to options.onError:
+ * 'assume-changed' (default) needs publishing, 'unknown' cannot be determined, 'throw' rejects
+ */
+function callbackError(description: string, err: unknown, options: NeedsPublishOptions, callback: NeedsPublishCallback): void {
+  const error = err as { code?: string; message?: string };
+  const onError = options.onError || 'assume-changed';
+  if (onError === 'throw') return callback(err instanceof Error ? err : new Error(String(err)));
+
+  const unknown = onError === 'unknown';
+  callback(null, {
+    needsPublish: !unknown,
+    status: unknown ? 'unknown' : 'publish',
+    reason: `${description}: ${error.message || 'Unknown error'}`,
+    ...(error.code && { errorCode: error.code }),
+  });
+}
+
+/**
+ * Wrap a callback to attach the entry points missing from the packed local package
+ * (results that could not be determined are passed through unchanged)
+ */
+function withEntryPointValidation(packLocal: () => Promise<Buffer>, options: NeedsPublishOptions, callback: NeedsPublishCallback): NeedsPublishCallback {
+  return (err, result) => {
+    if (err || !result || result.status === 'unknown') return callback(err, result);
+
+    (async () => {
+      const { applyPublishConfig, extractPackageJson, listTarballFiles, validateEntryPoints } = await import('./comparators/index.ts');
+      const tarball = await packLocal();
+      const manifest = applyPublishConfig((await extractPackageJson(tarball)) as PackageJson);
+      const errors = validateEntryPoints(manifest, await listTarballFiles(tarball));
+      callback(null, errors.length > 0 ? { ...result, errors } : result);
+    })().catch((packErr: unknown) => callbackError('Error packing local package', packErr, options, callback));
+  };
+}
+
 function needsPublishImpl(options: NeedsPublishOptions, callback: NeedsPublishCallback) {
   const cwd = options.cwd || process.cwd();
 
+  // The local package is packed at most once (comparison and entry point validation share it)
+  let localTarballPromise: Promise<Buffer> | undefined;
+  const packLocal = () => {
+    if (!localTarballPromise) localTarballPromise = packDirectory(cwd);
+    return localTarballPromise;
+  };
+  const done = options.validateEntryPoints ? withEntryPointValidation(packLocal, options, callback) : callback;
+
   // Load local package.json
   const localPkg: PackageJson = options.package || JSON.parse(fs.readFileSync(path.join(cwd, 'package.json'), 'utf8'));
 
@@ -33,122 +221,118 @@ function needsPublishImpl(options: NeedsPublishOptions, callback: NeedsPublishCa
   if (localPkg.private)
     return callback(null, {
       needsPublish: false,
+      status: 'skip',
       reason: 'Package is private',
     });
 
   (async () => {
-    const pacote = _require('pacote');
-    const Arborist = _require('@npmcli/arborist');
-    const npa = _require('npm-package-arg');
-    const { execFile } = _require('child_process');
-    const { promisify } = _require('util');
-    const execFileAsync = promisify(execFile);
-
     // Dynamic import for comparators (they use modern features)
-    const { comparePackageFiles, comparePackageJson, extractPackageJson, hashBuffer } = await import('./comparators/index.ts');
-
-    // Get registry URL for scoped packages
-    let registry: string | undefined = options.registry;
-    if (!registry) {
-      const scope = stringStartsWith(localPkg.name, '@') ? localPkg.name.split('/')[0] : undefined;
-      if (scope) {
-        try {
-          const { stdout } = await execFileAsync('npm', ['config', 'get', `${scope}:registry`]);
-          registry = stdout.trim();
-          if (registry === 'undefined') registry = undefined;
-        } catch {
-          // Fallback to default registry
-        }
-      }
-    }
+    const { comparePackageFiles, comparePackageJson, extractPackageJson, hashBuffer, recommendBump } = await import('./comparators/index.ts');
 
-    // Step 1: Try to fetch registry packument
-    let registryPkg: PackageJson;
     let registryTarball: Buffer;
 
-    try {
-      const packument = await pacote.packument(localPkg.name, {
-        Arborist,
-        ...(registry && { registry }),
-      });
+    if (options.baseline) {
+      // Local baseline: no packument, compare contents directly (its version need not be published)
+      registryTarball = await readBaselineTarball(path.resolve(cwd, options.baseline));
+    } else {
+      // Registry (publishConfig, then .npmrc scope registry and registry) and credentials from .npmrc
+      const npmConfig = options.npmConfig || readNpmConfig(cwd);
+      const registryOptions: RegistryOptions = {
+        ...getAuthOptions(npmConfig),
+        registry: options.registry || localPkg.publishConfig?.registry || resolveRegistry(localPkg.name, npmConfig) || DEFAULT_REGISTRY,
+      };
 
-      const latestVersion = packument['dist-tags']?.latest;
-      if (!latestVersion) {
-        callback(null, {
-          needsPublish: true,
-          reason: 'No latest version found in registry (first publish)',
-          changes: [{ type: 'first-publish', significance: 'critical' }],
-        });
-        return;
-      }
+      // Step 1: Try to fetch registry packument
+      let registryPkg: PackageJson;
+      try {
+        const packument = await fetchPackument(localPkg.name, registryOptions, options);
 
-      registryPkg = packument.versions[latestVersion] as unknown as PackageJson;
+        // Resolve the baseline version: explicit version, then dist-tag (default: publishConfig.tag, then latest)
+        const distTag = options.distTag || localPkg.publishConfig?.tag || 'latest';
+        const baselineVersion: string | undefined = options.compareVersion || packument['dist-tags']?.[distTag];
+        if (!baselineVersion) {
+          // The package is published, just not under this tag: a new release channel or a typo
+          const tags = Object.keys(packument['dist-tags'] || {});
+          done(null, {
+            needsPublish: true,
+            status: 'publish',
+            reason: `No '${distTag}' dist-tag found in registry (existing tags: ${tags.join(', ') || 'none'})`,
+            changes: [{ type: 'dist-tag-missing', field: distTag, significance: 'critical' }],
+          });
+          return;
+        }
 
-      // Step 2: Version comparison (fast path)
-      if (localPkg.version !== latestVersion) {
-        callback(null, {
-          needsPublish: true,
-          reason: `Version differs (local: ${localPkg.version}, registry: ${latestVersion})`,
-          changes: [
-            {
-              type: 'version',
-              field: 'version',
-              oldValue: latestVersion,
-              newValue: localPkg.version,
-              significance: 'critical',
-            },
-          ],
-        });
-        return;
-      }
+        registryPkg = packument.versions[baselineVersion];
+        if (!registryPkg) {
+          done(new Error(`Version ${baselineVersion} of ${localPkg.name} not found in registry`));
+          return;
+        }
 
-      // Fetch registry tarball for comparison
-      const tarballUrl = registryPkg.dist?.tarball;
-      if (!tarballUrl)
-        return callback(null, {
-          needsPublish: true,
-          reason: 'Registry package has no tarball URL',
-          changes: [{ type: 'first-publish', significance: 'critical' }],
-        });
+        // Step 2: Version comparison (fast path)
+        // A local version that is already published (under any tag) is compared against that version instead of
+        // the dist-tag, since npm publish would reject it with E403 if the contents changed; an explicit
+        // compareVersion stays the baseline (changed contents are still blocked)
+        const publishedLocal = packument.versions[localPkg.version];
+        if (publishedLocal && !options.compareVersion) {
+          registryPkg = publishedLocal;
+        } else if (!publishedLocal && localPkg.version !== baselineVersion) {
+          done(null, {
+            needsPublish: true,
+            status: 'publish',
+            reason: `Version differs (local: ${localPkg.version}, registry: ${baselineVersion})`,
+            changes: [
+              {
+                type: 'version',
+                field: 'version',
+                oldValue: baselineVersion,
+                newValue: localPkg.version,
+                significance: 'critical',
+              },
+            ],
+          });
+          return;
+        }
 
-      registryTarball = await pacote.tarball(tarballUrl, {
-        Arborist,
-        integrity: registryPkg.dist?.integrity,
-      });
-    } catch (err: unknown) {
-      const error = err as { code?: string; message?: string };
-      // Package not found in registry (first publish)
-      if (error.code === 'E404') {
-        callback(null, {
-          needsPublish: true,
-          reason: 'Package not found in registry (first publish)',
-          changes: [{ type: 'first-publish', significance: 'critical' }],
-        });
+        // Fetch registry tarball for comparison
+        const tarballUrl = registryPkg.dist?.tarball;
+        if (!tarballUrl)
+          return done(null, {
+            needsPublish: true,
+            status: 'publish',
+            reason: 'Registry package has no tarball URL',
+            changes: [{ type: 'first-publish', significance: 'critical' }],
+          });
+
+        registryTarball = await fetchTarball(registryPkg, registryOptions, options);
+      } catch (err: unknown) {
+        const error = err as { code?: string; message?: string };
+        // Offline mode cannot answer without the cache entry
+        if (error.code === 'ENOTCACHED') {
+          done(err as Error);
+          return;
+        }
+        // Package not found in registry (first publish)
+        if (error.code === 'E404') {
+          done(null, {
+            needsPublish: true,
+            status: 'publish',
+            reason: 'Package not found in registry (first publish)',
+            changes: [{ type: 'first-publish', significance: 'critical' }],
+          });
+          return;
+        }
+        // Other errors (timeouts, auth, server errors) are handled by options.onError
+        callbackError('Error checking registry', err, options, done);
         return;
       }
-      // Unknown error - assume changed to be safe
-      callback(null, {
-        needsPublish: true,
-        reason: `Error checking registry: ${error.message || 'Unknown error'}`,
-      });
-      return;
     }
 
     // Step 3: Pack local package
     let localTarball: Buffer;
     try {
-      const spec = npa(cwd);
-      const manifest = await pacote.manifest(spec, { Arborist });
-      localTarball = await pacote.tarball(manifest._resolved, {
-        Arborist,
-        integrity: manifest._integrity,
-      });
+      localTarball = await packLocal();
     } catch (err: unknown) {
-      const error = err as { message?: string };
-      callback(null, {
-        needsPublish: true,
-        reason: `Error packing local package: ${error.message || 'Unknown error'}`,
-      });
+      callbackError('Error packing local package', err, options, done);
       return;
     }
 
@@ -157,50 +341,100 @@ function needsPublishImpl(options: NeedsPublishOptions, callback: NeedsPublishCa
     const registryHash = hashBuffer(registryTarball);
 
     if (localHash === registryHash) {
-      callback(null, {
+      done(null, {
         needsPublish: false,
+        status: 'skip',
         reason: `No changes detected (hash: ${localHash.substring(0, 16)}...)`,
+        recommendedBump: 'none',
       });
       return;
     }
 
     // Step 5: File-by-file comparison
-    const fileComparison = await comparePackageFiles(localTarball, registryTarball);
+    const fileComparison = await comparePackageFiles(localTarball, registryTarball, {
+      ignoreFiles: options.ignoreFiles,
+      normalizeText: options.normalizeText,
+      normalizeJson: options.normalizeJson,
+      lineNormalizers: options.lineNormalizers,
+      compareDeclarations: options.compareDeclarations,
+      includeDiffs: options.includeDiffs,
+      maxDiffSize: options.maxDiffSize,
+      binModes: !!options.baseline,
+    });
 
     if (fileComparison.identical) {
       // Hash mismatch but files identical - likely tarball metadata difference
-      callback(null, {
+      done(null, {
         needsPublish: false,
+        status: 'skip',
         reason: 'Files identical (tarball metadata differs)',
+        recommendedBump: 'none',
       });
       return;
     }
 
-    // Step 6: If only package.json differs, do semantic comparison
-    if (fileComparison.packageJsonOnly && !options.packageJsonOnly) {
-      // Extract package.json from both tarballs for accurate comparison
-      // (packument metadata is missing fields like 'files')
+    // Only ignored or normalized files changed
+    if (!fileComparison.hasSignificantChanges) {
+      done(null, {
+        needsPublish: false,
+        status: 'skip',
+        reason: `Only informational file changes (${fileComparison.fileChanges.length} files ignored or equal after normalization)`,
+        changes: toFileChangeDetails(fileComparison.fileChanges),
+        recommendedBump: 'none',
+      });
+      return;
+    }
+    const informationalFileChanges = toFileChangeDetails(fileComparison.fileChanges.filter((fc) => fc.significance === 'informational'));
+
+    // Extract package.json from both tarballs for accurate comparison
+    // (packument metadata is missing fields like 'files')
+    const compareTarballPackageJson = async () => {
       const localTarballPkg = (await extractPackageJson(localTarball)) as PackageJson;
       const registryTarballPkg = (await extractPackageJson(registryTarball)) as PackageJson;
 
-      const pkgJsonComparison = comparePackageJson(localTarballPkg, registryTarballPkg, {
+      // workspace: and catalog: specifiers are compared as the range pnpm/yarn would publish
+      let workspaceVersions = options.workspaceVersions;
+      if (!workspaceVersions && hasSpecifierProtocol(localTarballPkg, 'workspace:')) {
+        const { findWorkspaceVersions } = await import('./workspaces.ts');
+        workspaceVersions = await findWorkspaceVersions(cwd);
+      }
+      let catalogs = options.catalogs;
+      if (!catalogs && hasSpecifierProtocol(localTarballPkg, 'catalog:')) {
+        const { findWorkspaceRoot, readCatalogs } = await import('./workspaces.ts');
+        const root = findWorkspaceRoot(cwd);
+        catalogs = root ? readCatalogs(root) : undefined;
+      }
+
+      return comparePackageJson(localTarballPkg, registryTarballPkg, {
         includeOptionalDeps: options.includeOptionalDeps,
         additionalSignificantFields: options.additionalSignificantFields,
         ignoreFields: options.ignoreFields,
         treatNarrowingAsEquivalent: options.treatNarrowingAsEquivalent,
+        workspaceVersions,
+        catalogs,
       });
+    };
+
+    // Step 6: If only package.json differs, do semantic comparison
+    if (fileComparison.packageJsonOnly && !options.packageJsonOnly) {
+      const pkgJsonComparison = await compareTarballPackageJson();
 
       if (!pkgJsonComparison.hasSignificantChanges) {
-        callback(null, {
+        done(null, {
           needsPublish: false,
+          status: 'skip',
           reason: 'Package.json changes are not significant for consumers',
-          changes: pkgJsonComparison.fieldChanges.map((fc) => ({
-            type: 'field' as const,
-            field: fc.field,
-            oldValue: fc.oldValue,
-            newValue: fc.newValue,
-            significance: 'informational' as const,
-          })),
+          changes: [
+            ...pkgJsonComparison.fieldChanges.map((fc) => ({
+              type: 'field' as const,
+              field: formatFieldName(fc),
+              oldValue: fc.oldValue,
+              newValue: fc.newValue,
+              significance: 'informational' as const,
+            })),
+            ...informationalFileChanges,
+          ],
+          recommendedBump: 'none',
         });
         return;
       }
@@ -209,7 +443,7 @@ function needsPublishImpl(options: NeedsPublishOptions, callback: NeedsPublishCa
       const changes: ChangeDetail[] = [
         ...pkgJsonComparison.fieldChanges.map((fc) => ({
           type: 'field' as const,
-          field: fc.field,
+          field: formatFieldName(fc),
           oldValue: fc.oldValue,
           newValue: fc.newValue,
           significance: fc.significance,
@@ -223,27 +457,40 @@ function needsPublishImpl(options: NeedsPublishOptions, callback: NeedsPublishCa
             newValue: dc.newSpec,
             significance: 'significant' as const,
           })),
+        ...informationalFileChanges,
       ];
 
-      callback(null, {
+      done(null, {
         needsPublish: true,
-        reason: pkgJsonComparison.summary,
+        status: 'publish',
+        ...(!options.baseline && { blocked: 'version-exists' as const }),
+        reason: options.baseline ? pkgJsonComparison.summary : `${pkgJsonComparison.summary} (version ${localPkg.version} already published)`,
         changes,
+        recommendedBump: recommendBump(pkgJsonComparison),
       });
       return;
     }
 
-    // Step 7: Other files changed
-    callback(null, {
+    // Step 7: Other files changed (package.json changes still count towards the recommended bump)
+    const significantFileChanges = fileComparison.fileChanges.filter((fc) => fc.significance !== 'informational');
+    const pkgJsonChanged = significantFileChanges.some((fc) => fc.path === 'package/package.json');
+    const pkgJsonComparison = pkgJsonChanged ? await compareTarballPackageJson() : undefined;
+    const recommendedBump = recommendBump({
+      fieldChanges: pkgJsonComparison?.fieldChanges,
+      dependencyChanges: pkgJsonComparison?.dependencyChanges,
+      fileChanges: fileComparison.fileChanges,
+      registryPackage: (await extractPackageJson(registryTarball)) as PackageJson,
+    });
+
+    done(null, {
       needsPublish: true,
-      reason: `Code changes detected (${fileComparison.fileChanges.length} files changed)`,
-      changes: fileComparison.fileChanges.map((fc) => ({
-        type: 'file' as const,
-        field: fc.path,
-        significance: 'significant' as const,
-      })),
+      status: 'publish',
+      ...(!options.baseline && { blocked: 'version-exists' as const }),
+      reason: `Code changes detected (${significantFileChanges.length} files changed${options.baseline ? '' : `, version ${localPkg.version} already published`})`,
+      changes: toFileChangeDetails(fileComparison.fileChanges),
+      recommendedBump,
     });
-  })().catch(callback);
+  })().catch(done);
 }
 
 /**
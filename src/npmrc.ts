@@ -0,0 +1,150 @@
+/**
+ * In-process npm configuration (.npmrc) for registry access
+ *
+ * Reads the same sources as the npm CLI, lowest precedence first:
+ * 1. Global: $PREFIX/etc/npmrc (or npm_config_globalconfig)
+ * 2. User: ~/.npmrc (or npm_config_userconfig)
+ * 3. Project: nearest .npmrc at or above the package directory
+ * 4. Environment: npm_config_* variables
+ *
+ * Only registry settings are used: `registry`, `@scope:registry` and nerf-darted
+ * credentials such as `//registry.example.com/:_authToken`, which pacote matches
+ * against each request URL.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { stringStartsWith } from './compat.ts';
+
+/**
+ * Credential keys npm-registry-fetch reads for a nerf-darted registry
+ */
+const AUTH_KEYS = ['_authToken', '_auth', 'username', '_password', 'certfile', 'keyfile'];
+
+/**
+ * Expand ${VAR} references (${VAR?} expands to empty when unset)
+ */
+function expandEnv(value: string, env: NodeJS.ProcessEnv): string {
+  return value.replace(/\$\{([^${}?]+)(\?)?\}/g, (match, name: string, optional?: string) => {
+    if (env[name] !== undefined) return env[name] as string;
+    return optional ? '' : match;
+  });
+}
+
+/**
+ * Parse .npmrc (ini) contents
+ *
+ * @returns Settings by key; sections and array keys are not used for registry access and are skipped
+ */
+export function parseNpmrc(contents: string, env: NodeJS.ProcessEnv = process.env): Record<string, string> {
+  const config: Record<string, string> = {};
+  const lines = contents.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.charAt(0) === '#' || line.charAt(0) === ';' || line.charAt(0) === '[') continue;
+
+    const eqIndex = line.indexOf('=');
+    if (eqIndex <= 0) continue;
+    const key = expandEnv(line.slice(0, eqIndex).trim(), env);
+    if (key.slice(-2) === '[]') continue;
+
+    let value = line.slice(eqIndex + 1).trim();
+    if (value.length >= 2 && (value.charAt(0) === '"' || value.charAt(0) === "'") && value.charAt(value.length - 1) === value.charAt(0)) {
+      value = value.slice(1, -1);
+    }
+    config[key] = expandEnv(value, env);
+  }
+
+  return config;
+}
+
+function readNpmrcFile(filePath: string, env: NodeJS.ProcessEnv): Record<string, string> {
+  if (!fs.existsSync(filePath)) return {};
+  try {
+    return parseNpmrc(fs.readFileSync(filePath, 'utf8'), env);
+  } catch {
+    // Unreadable config behaves like a missing one
+    return {};
+  }
+}
+
+/**
+ * Nearest .npmrc at or above a directory (workspace packages use the root's)
+ */
+function findProjectNpmrc(cwd: string): string | undefined {
+  let dir = path.resolve(cwd);
+  while (true) {
+    const filePath = path.join(dir, '.npmrc');
+    if (fs.existsSync(filePath)) return filePath;
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Settings from npm_config_* environment variables (npm_config_foo_bar → foo-bar)
+ */
+function readEnvConfig(env: NodeJS.ProcessEnv): Record<string, string> {
+  const config: Record<string, string> = {};
+  const keys = Object.keys(env);
+  for (let i = 0; i < keys.length; i++) {
+    const value = env[keys[i]];
+    if (!/^npm_config_/i.test(keys[i]) || !value) continue;
+
+    let key = keys[i].slice('npm_config_'.length);
+    // Nerf-darted keys are case-sensitive URLs
+    if (!stringStartsWith(key, '//')) key = key.replace(/(?!^)_/g, '-').toLowerCase();
+    config[key] = value;
+  }
+  return config;
+}
+
+/**
+ * Read the merged npm configuration for a package directory
+ *
+ * @param cwd - Package directory (the project .npmrc is searched from here upwards)
+ * @param env - Environment for npm_config_* variables and ${VAR} expansion
+ * @returns Settings by key, higher-precedence sources overriding lower ones
+ */
+export function readNpmConfig(cwd: string, env: NodeJS.ProcessEnv = process.env): Record<string, string> {
+  const prefix = env.npm_config_prefix || (process.platform === 'win32' ? path.dirname(process.execPath) : path.dirname(path.dirname(process.execPath)));
+  const globalConfig = env.npm_config_globalconfig || path.join(prefix, 'etc', 'npmrc');
+  const userConfig = env.npm_config_userconfig || path.join(os.homedir(), '.npmrc');
+  const projectConfig = findProjectNpmrc(cwd);
+
+  const sources = [readNpmrcFile(globalConfig, env), readNpmrcFile(userConfig, env), projectConfig && projectConfig !== userConfig ? readNpmrcFile(projectConfig, env) : {}, readEnvConfig(env)];
+
+  const config: Record<string, string> = {};
+  for (let i = 0; i < sources.length; i++) {
+    const keys = Object.keys(sources[i]);
+    for (let j = 0; j < keys.length; j++) config[keys[j]] = sources[i][keys[j]];
+  }
+  return config;
+}
+
+/**
+ * Resolve the registry for a package: `@scope:registry`, then `registry`
+ *
+ * @returns Registry URL, or undefined when the config sets neither
+ */
+export function resolveRegistry(name: string, config: Record<string, string>): string | undefined {
+  const scope = stringStartsWith(name, '@') ? name.split('/')[0] : undefined;
+  return (scope && config[`${scope}:registry`]) || config.registry || undefined;
+}
+
+/**
+ * Extract the nerf-darted credentials (`//host/path/:_authToken`, ...) to pass to pacote
+ */
+export function getAuthOptions(config: Record<string, string>): Record<string, string> {
+  const auth: Record<string, string> = {};
+  const keys = Object.keys(config);
+  for (let i = 0; i < keys.length; i++) {
+    if (!stringStartsWith(keys[i], '//')) continue;
+    const colonIndex = keys[i].lastIndexOf(':');
+    if (colonIndex >= 0 && AUTH_KEYS.indexOf(keys[i].slice(colonIndex + 1)) >= 0) auth[keys[i]] = config[keys[i]];
+  }
+  return auth;
+}
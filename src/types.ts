@@ -12,11 +12,16 @@ export interface PackageJson {
   module?: string;
   browser?: string | Record<string, string | false>;
   exports?: string | Record<string, unknown>;
+  imports?: Record<string, unknown>;
   types?: string;
   typings?: string;
+  typesVersions?: Record<string, Record<string, string[]>>;
+  sideEffects?: boolean | string[];
   type?: 'module' | 'commonjs';
   bin?: string | Record<string, string>;
   files?: string[];
+  man?: string | string[];
+  directories?: { bin?: string; man?: string; [directory: string]: string | undefined };
   dependencies?: Record<string, string>;
   devDependencies?: Record<string, string>;
   peerDependencies?: Record<string, string>;
@@ -38,6 +43,13 @@ export interface PackageJson {
   keywords?: string[];
   description?: string;
   private?: boolean;
+  workspaces?: string[] | { packages?: string[] };
+  publishConfig?: {
+    registry?: string;
+    tag?: string;
+    access?: string;
+    [field: string]: unknown;
+  };
   // npm internal fields
   _id?: string;
   _from?: string;
@@ -50,6 +62,15 @@ export interface PackageJson {
   };
 }
 
+/**
+ * Registry packument (the parts used by npm-needs-publish)
+ */
+export interface Packument {
+  name: string;
+  'dist-tags': Record<string, string>;
+  versions: Record<string, PackageJson>;
+}
+
 /**
  * Configuration options for needsPublish
  */
@@ -67,9 +88,27 @@ export interface NeedsPublishOptions {
 
   /**
    * Registry URL override
+   * @default publishConfig.registry, then the .npmrc scope registry or registry
    */
   registry?: string;
 
+  /**
+   * Merged npm configuration (see readNpmConfig), for the registry and credentials
+   * @default read from the .npmrc files and npm_config_* variables for cwd (once per workspace in workspaces mode)
+   */
+  npmConfig?: Record<string, string>;
+
+  /**
+   * Dist-tag whose version is used as the comparison baseline
+   * @default publishConfig.tag, then 'latest'
+   */
+  distTag?: string;
+
+  /**
+   * Exact registry version to compare against (takes precedence over distTag)
+   */
+  compareVersion?: string;
+
   /**
    * Whether to include optionalDependencies in comparison
    * @default true
@@ -107,6 +146,106 @@ export interface NeedsPublishOptions {
    * @default true
    */
   treatNarrowingAsEquivalent?: boolean;
+
+  /**
+   * Local versions of workspace packages by name, used to resolve workspace: specifiers
+   * the way pnpm and yarn rewrite them at pack time.
+   * @default discovered from the enclosing workspace root when the package uses workspace: specifiers
+   */
+  workspaceVersions?: Record<string, string>;
+
+  /**
+   * pnpm catalogs (catalog name → dependency → range; 'default' for `catalog:`),
+   * used to resolve catalog: specifiers
+   * @default read from the enclosing pnpm-workspace.yaml when the package uses catalog: specifiers
+   */
+  catalogs?: Record<string, Record<string, string>>;
+
+  /**
+   * Directory for cached registry packuments and tarballs (tarballs are keyed by dist.integrity);
+   * without it and offline, nothing is cached
+   * @default ~/.cache/npm-needs-publish in offline mode
+   */
+  cacheDir?: string;
+
+  /**
+   * Answer registry requests from the cache only; a missing entry is an error (code ENOTCACHED)
+   * @default false
+   */
+  offline?: boolean;
+
+  /**
+   * Local .tgz or unpacked directory to compare against instead of the registry
+   * (resolved relative to cwd). The packument is not fetched and changes are not blocked.
+   * Only here are mode changes of bin scripts significant (e.g. a .tgz packed without the
+   * executable bit), since npm pack makes them executable in registry releases and local packs.
+   */
+  baseline?: string;
+
+  /**
+   * How to report registry and packing errors (a missing package is a first publish, not an error):
+   * - 'assume-changed': needsPublish=true, status='publish'
+   * - 'unknown': needsPublish=false, status='unknown'
+   * - 'throw': reject with the error
+   * @default 'assume-changed'
+   */
+  onError?: 'assume-changed' | 'throw' | 'unknown';
+
+  /**
+   * Globs for files whose changes are listed as informational instead of triggering a publish,
+   * relative to the package root (patterns without a slash, e.g. '*.map', match in any directory)
+   * @default []
+   */
+  ignoreFiles?: string[];
+
+  /**
+   * Treat text files that only differ in BOM, line endings (CRLF/LF), trailing whitespace
+   * or trailing newlines as informational changes
+   * @default false
+   */
+  normalizeText?: boolean;
+
+  /**
+   * Treat .json files (other than the root package.json) with the same parsed value,
+   * ignoring key order and formatting, as informational changes
+   * @default false
+   */
+  normalizeJson?: boolean;
+
+  /**
+   * Line-level regex replace rules applied to both versions of text files before comparing,
+   * for build-stamp noise such as banner timestamps; either preset names
+   * ('banner-timestamp', 'source-mapping-url') or custom rules
+   * @default []
+   */
+  lineNormalizers?: Array<string | LineNormalizer>;
+
+  /**
+   * Compare type declaration files (.d.ts) by their exported API: declarations only differing
+   * in comments, formatting or statement order are informational, and added, removed or
+   * changed exports are reported as 'api' changes
+   * @default true
+   */
+  compareDeclarations?: boolean;
+
+  /**
+   * Include a line diff of each changed text file in the file changes
+   * @default false
+   */
+  includeDiffs?: boolean;
+
+  /**
+   * Largest file (bytes) to diff; larger files are reported with skipped='too-large'
+   * @default 262144 (256 KiB)
+   */
+  maxDiffSize?: number;
+
+  /**
+   * Check that every main/module/types/bin/exports target exists in the packed local tarball,
+   * reporting missing targets in result.errors (packs the package even when no comparison is needed)
+   * @default false
+   */
+  validateEntryPoints?: boolean;
 }
 
 /**
@@ -115,9 +254,21 @@ export interface NeedsPublishOptions {
 export interface NeedsPublishResult {
   /**
    * Whether the package needs to be published
+   * (false when the status is 'unknown')
    */
   needsPublish: boolean;
 
+  /**
+   * Outcome of the check: 'unknown' when an error prevented the comparison and options.onError is 'unknown'
+   */
+  status: PublishStatus;
+
+  /**
+   * Set when the package changed but cannot be published as-is:
+   * - 'version-exists': the local version is already in the registry (bump the version)
+   */
+  blocked?: 'version-exists';
+
   /**
    * Human-readable reason
    */
@@ -127,17 +278,97 @@ export interface NeedsPublishResult {
    * Detailed breakdown of changes detected
    */
   changes?: ChangeDetail[];
+
+  /**
+   * Semver bump recommended for the detected changes.
+   * Not set when the contents were not compared (private, first publish, version already bumped).
+   */
+  recommendedBump?: BumpLevel;
+
+  /**
+   * Code of the error that prevented the comparison (e.g. 'E500', 'ETIMEDOUT')
+   */
+  errorCode?: string;
+
+  /**
+   * Entry points missing from the packed package (only with options.validateEntryPoints)
+   */
+  errors?: EntryPointError[];
+}
+
+/**
+ * Entry point target missing from the packed package
+ */
+export interface EntryPointError {
+  /** Referencing field, e.g. 'main', 'bin.nnp' or 'exports["./utils"].import' */
+  field: string;
+  /** Path as written in package.json */
+  target: string;
+  message: string;
+}
+
+/**
+ * Outcome of a needsPublish check
+ */
+export type PublishStatus = 'publish' | 'skip' | 'unknown';
+
+/**
+ * Semver bump level
+ */
+export type BumpLevel = 'major' | 'minor' | 'patch' | 'none';
+
+/**
+ * Changes used to recommend a bump level
+ */
+export interface BumpChanges {
+  fieldChanges?: FieldChange[];
+  dependencyChanges?: DependencyChange[];
+  fileChanges?: FileChange[];
+  /** Published package.json: removed files are major when it has no exports or its main/exports/bin reach them, patch otherwise (major when missing) */
+  registryPackage?: PackageJson;
+}
+
+/**
+ * Package discovered in a workspace
+ */
+export interface WorkspacePackage {
+  name: string;
+  /** Absolute path to the package directory */
+  path: string;
+  package: PackageJson;
+}
+
+/**
+ * needsPublish result for one workspace package
+ */
+export interface WorkspaceResult {
+  name: string;
+  version: string;
+  /** Absolute path to the package directory */
+  path: string;
+  result: NeedsPublishResult;
 }
 
 /**
  * Detail about a specific change detected
+ *
+ * For 'dependent' changes (workspace mode), field is the dependency (e.g. `dependencies.pkg-a`),
+ * oldValue the declared range and newValue the upstream version that falls outside it.
+ *
+ * For 'dist-tag-missing' changes, field is the dist-tag that the published package does not have.
  */
 export interface ChangeDetail {
-  type: 'version' | 'dependency' | 'field' | 'file' | 'first-publish';
+  type: 'version' | 'dependency' | 'field' | 'file' | 'api' | 'first-publish' | 'dist-tag-missing' | 'dependent';
   field?: string;
   oldValue?: unknown;
   newValue?: unknown;
   significance: 'critical' | 'significant' | 'informational';
+  /** File change action (oldValue/newValue hold the modes for 'mode-changed' or a mode-changing 'modified', and the paths for 'renamed') */
+  action?: FileChange['action'];
+  /** Normalizations under which the files are equal, for informational file changes */
+  normalizations?: string[];
+  /** Line diff for file changes (only with includeDiffs) */
+  diff?: FileDiff;
 }
 
 /**
@@ -172,6 +403,10 @@ export type VersionSpecifierType =
   | 'file' // file:../local
   | 'alias' // npm:package@version
   | 'workspace' // workspace:*, workspace:^
+  | 'catalog' // catalog:, catalog:react18 (pnpm)
+  | 'patch' // patch:lodash@npm%3A4.17.21#./patches/lodash.patch (yarn)
+  | 'portal' // portal:../local (yarn)
+  | 'link' // link:../local (yarn, pnpm)
   | 'tag' // latest, next
   | 'url'; // http(s) URLs to tarballs
 
@@ -192,6 +427,16 @@ export interface ParsedVersionSpecifier {
   aliasTarget?: ParsedVersionSpecifier;
   /** For workspace protocol */
   workspaceRange?: string;
+  /** For catalog protocol ('default' for bare catalog:) */
+  catalogName?: string;
+  /** For patch protocol */
+  patchInfo?: {
+    /** Patched dependency, e.g. lodash@npm:4.17.21 */
+    source: string;
+    /** Version range of the patched dependency */
+    range?: string;
+    patchPath: string;
+  };
 }
 
 /**
@@ -220,6 +465,10 @@ export interface SpecifierComparison {
 export interface CompareSpecifierOptions {
   /** Directory context for file: specifiers */
   where?: string;
+  /** Local version of the workspace package, used to resolve workspace: specifiers */
+  workspaceVersion?: string;
+  /** Catalog ranges for the dependency by catalog name, used to resolve catalog: specifiers */
+  catalogEntries?: Record<string, string>;
 }
 
 /**
@@ -237,6 +486,10 @@ export interface PackageJsonComparison {
  */
 export interface FieldChange {
   field: string;
+  /** exports: subpath whose resolution changed (oldValue/newValue are the resolved targets) */
+  subpath?: string;
+  /** exports: active conditions the subpath was resolved under ([] for default only) */
+  conditions?: string[];
   oldValue: unknown;
   newValue: unknown;
   significance: 'critical' | 'significant' | 'informational';
@@ -258,6 +511,10 @@ export interface DependencyCompareOptions {
   includeOptionalDeps?: boolean;
   /** Treat narrowed ranges as equivalent @default true */
   treatNarrowingAsEquivalent?: boolean;
+  /** Local versions of workspace packages by name, used to resolve workspace: specifiers */
+  workspaceVersions?: Record<string, string>;
+  /** pnpm catalogs (catalog name → dependency → range), used to resolve catalog: specifiers */
+  catalogs?: Record<string, Record<string, string>>;
 }
 
 /**
@@ -267,6 +524,8 @@ export interface FileComparison {
   identical: boolean;
   fileChanges: FileChange[];
   packageJsonOnly: boolean;
+  /** Whether any change is significant (false when every change is informational: ignored or normalized) */
+  hasSignificantChanges: boolean;
 }
 
 /**
@@ -274,7 +533,83 @@ export interface FileComparison {
  */
 export interface FileChange {
   path: string;
-  action: 'added' | 'removed' | 'modified';
+  /** 'mode-changed': same contents, different permission bits; 'renamed': same contents at a new path */
+  action: 'added' | 'removed' | 'modified' | 'mode-changed' | 'renamed';
+  /** Previous path, for 'renamed' */
+  oldPath?: string;
+  /** Permission bits in the registry version, for 'mode-changed' and 'modified' files whose mode also changed */
+  oldMode?: number;
+  /** Permission bits in the local version, for 'mode-changed' and 'modified' files whose mode also changed */
+  newMode?: number;
+  /** 'informational' changes do not trigger a publish; 'critical' renames break an entry point @default 'significant' */
+  significance?: 'critical' | 'significant' | 'informational';
+  /** ignoreFiles pattern that made the change informational */
+  ignoredBy?: string;
+  /** Normalizations under which the files are equal (e.g. 'eol'), making the change informational */
+  normalizations?: string[];
+  /** Line diff (only with includeDiffs) */
+  diff?: FileDiff;
+  /** Exported API changes of a type declaration file (.d.ts) */
+  apiChanges?: ApiChange[];
+}
+
+/**
+ * Change to an exported symbol of a type declaration file
+ */
+export interface ApiChange {
+  /** Exported name ('default', 'export=', 'module "x"' and 'global' for augmentations, '* from "x"' for star re-exports) */
+  name: string;
+  action: 'added' | 'removed' | 'changed';
+  /** Declaration in the registry version (overloads and merged declarations joined by newlines) */
+  oldSignature?: string;
+  /** Declaration in the local version */
+  newSignature?: string;
+}
+
+/**
+ * Regex replace rule applied to each line of a text file
+ */
+export interface LineNormalizer {
+  /** Reported in FileChange.normalizations when the rule made the files equal */
+  name: string;
+  /** Pattern matched against each line (strings are compiled with the 'g' flag) */
+  pattern: string | RegExp;
+  /** Replacement, may reference capture groups ($1) @default '' */
+  replacement?: string;
+}
+
+/**
+ * Line diff of a changed file
+ */
+export interface FileDiff {
+  /** Unified diff from the registry (a/) to the local (b/) file, omitted when skipped */
+  patch?: string;
+  linesAdded?: number;
+  linesRemoved?: number;
+  /** Why no diff was computed */
+  skipped?: 'binary' | 'too-large';
+}
+
+/**
+ * Options for comparing package files
+ */
+export interface FileCompareOptions {
+  /** Globs (relative to the package root) for files whose changes are informational @default [] */
+  ignoreFiles?: string[];
+  /** Treat text files differing only in BOM, line endings or trailing whitespace/newlines as informational @default false */
+  normalizeText?: boolean;
+  /** Treat .json files with the same parsed value (ignoring key order and formatting) as informational @default false */
+  normalizeJson?: boolean;
+  /** Line-level regex replace rules (preset names or custom rules) for text files @default [] */
+  lineNormalizers?: Array<string | LineNormalizer>;
+  /** Compare .d.ts files by their exported API, ignoring comments and formatting @default true */
+  compareDeclarations?: boolean;
+  /** Compute line diffs for changed text files @default false */
+  includeDiffs?: boolean;
+  /** Largest file (bytes) to diff @default 262144 */
+  maxDiffSize?: number;
+  /** Treat mode changes of bin scripts as significant (only set for baselines: npm pack always makes them executable) @default false */
+  binModes?: boolean;
 }
 
 /**
@@ -286,6 +621,10 @@ export interface CompareOptions {
   ignoreFields?: string[];
   /** Treat narrowed ranges as equivalent @default true */
   treatNarrowingAsEquivalent?: boolean;
+  /** Local versions of workspace packages by name, used to resolve workspace: specifiers */
+  workspaceVersions?: Record<string, string>;
+  /** pnpm catalogs (catalog name → dependency → range), used to resolve catalog: specifiers */
+  catalogs?: Record<string, Record<string, string>>;
 }
 
 /**
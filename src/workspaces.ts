@@ -0,0 +1,311 @@
+/**
+ * Workspace (monorepo) support for npm-needs-publish
+ *
+ * Discovers packages from the root package.json `workspaces` globs and the
+ * pnpm-workspace.yaml `packages` list, then checks every non-private package.
+ *
+ * Results are returned in dependency (topological) order. A package whose
+ * declared range on a sibling would not include that sibling's next version
+ * is marked as needing publish with a 'dependent' change.
+ */
+
+import fs from 'fs';
+import Module from 'module';
+import path from 'path';
+import { compareVersionSpecifiers, resolveWorkspaceSpecifier } from './comparators/version-specifier.ts';
+import { needsPublish } from './needs-publish.ts';
+import { readNpmConfig } from './npmrc.ts';
+import type { ChangeDetail, NeedsPublishOptions, PackageJson, WorkspacePackage, WorkspaceResult } from './types.ts';
+
+const _require = typeof require === 'undefined' ? Module.createRequire(import.meta.url) : require;
+
+/**
+ * Dependency types that end up in the published manifest
+ */
+const WORKSPACE_DEP_TYPES = ['dependencies', 'peerDependencies', 'optionalDependencies'] as const;
+
+/**
+ * Callback type for needsPublishWorkspaces
+ */
+export type NeedsPublishWorkspacesCallback = (error: Error | null, results?: WorkspaceResult[]) => void;
+
+/**
+ * Read workspace globs from the root package.json and pnpm-workspace.yaml
+ *
+ * @param root - Workspace root directory
+ * @returns Combined glob patterns (empty when the directory is not a workspace root)
+ */
+export function readWorkspacePatterns(root: string): string[] {
+  const patterns: string[] = [];
+
+  const pkgPath = path.join(root, 'package.json');
+  if (fs.existsSync(pkgPath)) {
+    const rootPkg: PackageJson = JSON.parse(fs.readFileSync(pkgPath, 'utf8'));
+    const workspaces = Array.isArray(rootPkg.workspaces) ? rootPkg.workspaces : rootPkg.workspaces?.packages || [];
+    patterns.push.apply(patterns, workspaces);
+  }
+
+  const pnpmWorkspace = readPnpmWorkspace(root);
+  if (pnpmWorkspace && Array.isArray(pnpmWorkspace.packages)) {
+    patterns.push.apply(patterns, pnpmWorkspace.packages as string[]);
+  }
+
+  return patterns;
+}
+
+/**
+ * Parse pnpm-workspace.yaml in a directory
+ *
+ * @returns Parsed document, or undefined if the file does not exist
+ */
+export function readPnpmWorkspace(root: string): Record<string, unknown> | undefined {
+  const yamlPath = path.join(root, 'pnpm-workspace.yaml');
+  if (!fs.existsSync(yamlPath)) return undefined;
+
+  const YAML = _require('yaml');
+  return YAML.parse(fs.readFileSync(yamlPath, 'utf8')) || {};
+}
+
+/**
+ * Read pnpm catalogs from pnpm-workspace.yaml
+ *
+ * @param root - Workspace root directory
+ * @returns Catalogs by name; the top-level `catalog` is named 'default'
+ */
+export function readCatalogs(root: string): Record<string, Record<string, string>> {
+  const pnpmWorkspace = readPnpmWorkspace(root) || {};
+  const catalogs: Record<string, Record<string, string>> = {};
+
+  const namedCatalogs = (pnpmWorkspace.catalogs || {}) as Record<string, Record<string, string>>;
+  const names = Object.keys(namedCatalogs);
+  for (let i = 0; i < names.length; i++) catalogs[names[i]] = namedCatalogs[names[i]] || {};
+  if (pnpmWorkspace.catalog) catalogs.default = pnpmWorkspace.catalog as Record<string, string>;
+
+  return catalogs;
+}
+
+/**
+ * Find all packages in a workspace
+ *
+ * @param root - Workspace root directory
+ * @returns Workspace packages sorted by name
+ */
+export async function findWorkspacePackages(root: string): Promise<WorkspacePackage[]> {
+  const patterns = readWorkspacePatterns(root);
+  if (patterns.length === 0) return [];
+
+  const mapWorkspaces = _require('@npmcli/map-workspaces');
+  const workspaces: Map<string, string> = await mapWorkspaces({ cwd: root, pkg: { workspaces: patterns } });
+
+  const packages: WorkspacePackage[] = [];
+  workspaces.forEach((dir, name) => {
+    const pkg: PackageJson = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf8'));
+    packages.push({ name, path: dir, package: pkg });
+  });
+
+  return packages.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+}
+
+/**
+ * Find the workspace root enclosing a directory
+ *
+ * @param cwd - Directory to start from (checked first)
+ * @returns Nearest ancestor declaring workspaces, or undefined if there is none
+ */
+export function findWorkspaceRoot(cwd: string): string | undefined {
+  let dir = path.resolve(cwd);
+  while (true) {
+    if (readWorkspacePatterns(dir).length > 0) return dir;
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Map workspace package names to their local versions
+ */
+function getWorkspaceVersions(packages: WorkspacePackage[]): Record<string, string> {
+  const versions: Record<string, string> = {};
+  for (let i = 0; i < packages.length; i++) versions[packages[i].name] = packages[i].package.version;
+  return versions;
+}
+
+/**
+ * Local versions of the packages in the workspace enclosing a directory
+ *
+ * @returns Versions by package name (empty outside a workspace)
+ */
+export async function findWorkspaceVersions(cwd: string): Promise<Record<string, string>> {
+  const root = findWorkspaceRoot(cwd);
+  return root ? getWorkspaceVersions(await findWorkspacePackages(root)) : {};
+}
+
+/**
+ * Order packages so that workspace dependencies come before their dependents
+ * (cycles are broken in name order)
+ */
+function sortTopologically(packages: WorkspacePackage[]): WorkspacePackage[] {
+  const byName: Record<string, WorkspacePackage> = {};
+  for (let i = 0; i < packages.length; i++) byName[packages[i].name] = packages[i];
+
+  const sorted: WorkspacePackage[] = [];
+  const visited: Record<string, boolean> = {};
+  const visit = (workspace: WorkspacePackage) => {
+    if (visited[workspace.name]) return;
+    visited[workspace.name] = true;
+    for (let i = 0; i < WORKSPACE_DEP_TYPES.length; i++) {
+      const deps = workspace.package[WORKSPACE_DEP_TYPES[i]] || {};
+      const names = Object.keys(deps);
+      for (let j = 0; j < names.length; j++) {
+        if (byName[names[j]]) visit(byName[names[j]]);
+      }
+    }
+    sorted.push(workspace);
+  };
+  for (let i = 0; i < packages.length; i++) visit(packages[i]);
+
+  return sorted;
+}
+
+/**
+ * Version a package will have once published
+ * A blocked result must be bumped first: by the recommended level, at least a patch.
+ */
+function getNextVersion(entry: WorkspaceResult): string {
+  if (!entry.result.needsPublish || !entry.result.blocked) return entry.version;
+
+  const semver = _require('semver');
+  const bump = entry.result.recommendedBump && entry.result.recommendedBump !== 'none' ? entry.result.recommendedBump : 'patch';
+  return semver.inc(entry.version, bump) || entry.version;
+}
+
+/**
+ * Mark dependents whose declared range excludes an upstream package's next version
+ *
+ * @param packages - Workspace packages in topological order
+ * @param results - Results for the non-private packages, in the same order
+ */
+function cascadeDependents(packages: WorkspacePackage[], results: WorkspaceResult[]): void {
+  const semver = _require('semver');
+
+  const packagesByName: Record<string, WorkspacePackage> = {};
+  for (let i = 0; i < packages.length; i++) packagesByName[packages[i].name] = packages[i];
+  const resultsByName: Record<string, WorkspaceResult> = {};
+  for (let i = 0; i < results.length; i++) resultsByName[results[i].name] = results[i];
+
+  // Upstream packages come first, so their next version already includes any cascade
+  for (let i = 0; i < results.length; i++) {
+    const entry = results[i];
+    const pkg = packagesByName[entry.name].package;
+    const dependentChanges: ChangeDetail[] = [];
+    const excluded: string[] = [];
+
+    for (let j = 0; j < WORKSPACE_DEP_TYPES.length; j++) {
+      const depType = WORKSPACE_DEP_TYPES[j];
+      const deps = pkg[depType] || {};
+      const names = Object.keys(deps);
+      for (let k = 0; k < names.length; k++) {
+        const upstream = resultsByName[names[k]];
+        if (!upstream || !upstream.result.needsPublish) continue;
+
+        // Declared range as written to the packed manifest; skip non-semver specifiers (file:, link:, ...)
+        const range = resolveWorkspaceSpecifier(deps[names[k]], upstream.version);
+        if (!semver.validRange(range, { loose: true })) continue;
+
+        const nextVersion = getNextVersion(upstream);
+        const comparison = compareVersionSpecifiers(range, nextVersion);
+        if (comparison.equivalent || comparison.relation === 'narrowed') continue;
+
+        dependentChanges.push({
+          type: 'dependent',
+          field: `${depType}.${names[k]}`,
+          oldValue: range,
+          newValue: nextVersion,
+          significance: 'significant',
+        });
+        excluded.push(`${names[k]}@${nextVersion}`);
+      }
+    }
+
+    // An undetermined package stays undetermined
+    if (dependentChanges.length === 0 || entry.result.status === 'unknown') continue;
+
+    if (entry.result.needsPublish) {
+      entry.result = { ...entry.result, changes: (entry.result.changes || []).concat(dependentChanges) };
+    } else {
+      // Unchanged, so the local version is already published and must be bumped
+      entry.result = {
+        needsPublish: true,
+        status: 'publish',
+        blocked: 'version-exists',
+        reason: `Declared range excludes upstream ${excluded.join(', ')} (version ${entry.version} already published)`,
+        changes: dependentChanges,
+        recommendedBump: 'patch',
+      };
+    }
+  }
+}
+
+function needsPublishWorkspacesImpl(options: NeedsPublishOptions, callback: NeedsPublishWorkspacesCallback) {
+  const root = options.cwd || process.cwd();
+  if (options.baseline) return callback(new Error('A baseline cannot be used in workspaces mode'));
+  if (options.compareVersion) return callback(new Error('A compare version cannot be used in workspaces mode (versions differ per package)'));
+
+  (async () => {
+    const packages = sortTopologically(await findWorkspacePackages(root));
+    if (packages.length === 0) {
+      callback(new Error(`No workspace packages found in ${root}`));
+      return;
+    }
+
+    const workspaceVersions = options.workspaceVersions || getWorkspaceVersions(packages);
+    const catalogs = options.catalogs || readCatalogs(root);
+    // npm reads the project .npmrc at the workspace root, so one config serves every package
+    const npmConfig = options.npmConfig || readNpmConfig(root);
+
+    const results: WorkspaceResult[] = [];
+    for (let i = 0; i < packages.length; i++) {
+      const workspace = packages[i];
+      if (workspace.package.private) continue;
+
+      const result = await needsPublish({
+        ...options,
+        cwd: workspace.path,
+        package: workspace.package,
+        workspaceVersions,
+        catalogs,
+        npmConfig,
+      });
+      results.push({ name: workspace.name, version: workspace.package.version, path: workspace.path, result });
+    }
+
+    cascadeDependents(packages, results);
+    callback(null, results);
+  })().catch(callback);
+}
+
+/**
+ * Callback-based needsPublishWorkspaces
+ */
+export function needsPublishWorkspacesCb(options: NeedsPublishOptions, callback: NeedsPublishWorkspacesCallback) {
+  needsPublishWorkspacesImpl(options, callback);
+}
+
+/**
+ * Determine which packages in a workspace need to be published.
+ * Private packages are skipped.
+ *
+ * @example
+ * ```ts
+ * import { needsPublishWorkspaces } from 'npm-needs-publish';
+ *
+ * const results = await needsPublishWorkspaces({ cwd: process.cwd() });
+ * for (const { name, result } of results) {
+ *   if (result.needsPublish) console.log('Publish needed:', name);
+ * }
+ * ```
+ */
+export function needsPublishWorkspaces(options: NeedsPublishOptions = {}): Promise<WorkspaceResult[]> {
+  return new Promise((resolve, reject) => needsPublishWorkspacesCb(options, (err, results) => (err ? reject(err) : resolve(results))));
+}
@@ -0,0 +1,43 @@
+/**
+ * Tests for the registry cache against the live registry
+ */
+
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import { cleanupTempDir, createTempDir, getCliPath, runCommand } from '../lib/test-helpers.ts';
+
+describe('cache', () => {
+  let tempDir: string;
+  let cacheDir: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir('cache-');
+    cacheDir = createTempDir('cache-dir-');
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+    cleanupTempDir(cacheDir);
+  });
+
+  it('should answer offline from the cache populated by an online run', () => {
+    const cliPath = getCliPath();
+
+    // Same name and version as a published release, different contents
+    const packageJson = {
+      name: 'npm-needs-publish',
+      version: '1.0.2',
+    };
+    fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+
+    const online = runCommand(`node ${cliPath} --cwd ${tempDir} --cache-dir ${cacheDir}`, process.cwd());
+    assert.equal(online.exitCode, 3);
+
+    const res = runCommand(`node ${cliPath} --cwd ${tempDir} --offline --cache-dir ${cacheDir} --json`, process.cwd());
+
+    assert.equal(res.exitCode, 3, 'CLI should give the same result offline');
+    const output = JSON.parse(res.stdout) as { blocked?: string };
+    assert.equal(output.blocked, 'version-exists');
+  });
+});
@@ -0,0 +1,332 @@
+import assert from 'assert';
+import crypto from 'crypto';
+import fs from 'fs';
+import { needsPublish, writeCachedPackument, writeCachedTarball } from 'npm-needs-publish';
+import path from 'path';
+import * as tar from 'tar';
+import { cleanupTempDir, createTempDir } from '../lib/test-helpers.ts';
+
+function writePackage(dir: string, pkg: Record<string, unknown>, files: Record<string, string>): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify(pkg, null, 2));
+  const names = Object.keys(files);
+  for (let i = 0; i < names.length; i++) fs.writeFileSync(path.join(dir, names[i]), files[names[i]]);
+}
+
+describe('baseline', () => {
+  const pkg = { name: 'baseline-test-package', version: '1.0.0', main: 'index.js' };
+  let tempDir: string;
+  let localDir: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir('baseline-');
+    localDir = path.join(tempDir, 'local');
+    writePackage(localDir, pkg, { 'index.js': 'module.exports = 1;\n' });
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  it('should not need publishing when an unpacked directory matches', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 1;\n' });
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(result.needsPublish, false);
+  });
+
+  it('should leave unpublished files out of a directory baseline', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, { ...pkg, files: ['index.js'] }, { 'index.js': 'module.exports = 1;\n', 'notes.md': 'unpublished\n' });
+    fs.mkdirSync(path.join(baselineDir, 'node_modules', 'dep'), { recursive: true });
+    fs.writeFileSync(path.join(baselineDir, 'node_modules', 'dep', 'index.js'), 'module.exports = 0;\n');
+    fs.mkdirSync(path.join(baselineDir, '.git'));
+    fs.writeFileSync(path.join(baselineDir, '.git', 'HEAD'), 'ref: refs/heads/main\n');
+    writePackage(localDir, { ...pkg, files: ['index.js'] }, {});
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(result.needsPublish, false);
+    assert.equal(result.changes, undefined);
+  });
+
+  it('should detect changed files without blocking', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 0;\n' });
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(result.needsPublish, true);
+    assert.equal(result.blocked, undefined);
+    assert.equal(result.recommendedBump, 'patch');
+  });
+
+  it('should accept an extracted tarball with its package folder', async () => {
+    const baselineDir = path.join(tempDir, 'extracted');
+    writePackage(path.join(baselineDir, 'package'), pkg, { 'index.js': 'module.exports = 1;\n' });
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(result.needsPublish, false);
+  });
+
+  it('should compare against a tarball', async () => {
+    const sourceDir = path.join(tempDir, 'source');
+    writePackage(sourceDir, pkg, { 'index.js': 'module.exports = 1;\n' });
+    const tarballPath = path.join(tempDir, 'baseline-test-package-1.0.0.tgz');
+    await tar.c({ gzip: true, cwd: sourceDir, prefix: 'package', file: tarballPath }, ['package.json', 'index.js']);
+
+    const result = await needsPublish({ cwd: localDir, baseline: tarballPath });
+    assert.equal(result.needsPublish, false);
+  });
+
+  it('should list ignored files as informational changes', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 1;\n', 'index.js.map': '{"version":3}' });
+    fs.writeFileSync(path.join(localDir, 'index.js.map'), '{"version":3,"mappings":""}');
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir, ignoreFiles: ['*.map'] });
+    assert.equal(result.needsPublish, false);
+    assert.equal(result.recommendedBump, 'none');
+    assert.deepEqual(result.changes, [{ type: 'file', field: 'package/index.js.map', action: 'modified', significance: 'informational' }]);
+  });
+
+  it('should still publish when other files changed', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 0;\n', 'CHANGELOG.md': '# 1.0.0\n' });
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir, ignoreFiles: ['CHANGELOG.md'] });
+    assert.equal(result.needsPublish, true);
+    assert.ok(result.reason.indexOf('1 files changed') >= 0);
+  });
+
+  it('should treat line ending differences as informational with normalizeText', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': '\ufeffmodule.exports = 1;\r\n' });
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir, normalizeText: true });
+    assert.equal(result.needsPublish, false);
+    assert.deepEqual(result.changes, [{ type: 'file', field: 'package/index.js', action: 'modified', significance: 'informational', normalizations: ['bom', 'eol'] }]);
+
+    const strict = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(strict.needsPublish, true);
+  });
+
+  it('should compare JSON files by value', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 1;\n', 'schema.json': '{"b":[1,2],"a":{"x":true}}' });
+    fs.writeFileSync(path.join(localDir, 'schema.json'), JSON.stringify({ a: { x: true }, b: [1, 2] }, null, 2));
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir, normalizeJson: true });
+    assert.equal(result.needsPublish, false);
+    assert.deepEqual(result.changes, [{ type: 'file', field: 'package/schema.json', action: 'modified', significance: 'informational', normalizations: ['json'] }]);
+
+    fs.writeFileSync(path.join(localDir, 'schema.json'), JSON.stringify({ a: { x: true }, b: [2, 1] }));
+    const reordered = await needsPublish({ cwd: localDir, baseline: baselineDir, normalizeJson: true });
+    assert.equal(reordered.needsPublish, true, 'array order is significant');
+
+    const strict = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(strict.needsPublish, true);
+  });
+
+  it('should ignore build stamps with line normalizers', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': '/* built 2026-10-18T09:12:44.120Z */\nmodule.exports = 1;\n//# sourceMappingURL=index.3f2a.js.map\n' });
+    fs.writeFileSync(path.join(localDir, 'index.js'), '/* built 2026-10-19T10:00:01.002Z */\nmodule.exports = 1;\n//# sourceMappingURL=index.9c1e.js.map\n');
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir, lineNormalizers: ['banner-timestamp', 'source-mapping-url', 'banner-timestamp'] });
+    assert.equal(result.needsPublish, false);
+    assert.deepEqual(result.changes, [{ type: 'file', field: 'package/index.js', action: 'modified', significance: 'informational', normalizations: ['banner-timestamp', 'source-mapping-url'] }]);
+
+    const partial = await needsPublish({ cwd: localDir, baseline: baselineDir, lineNormalizers: ['banner-timestamp'] });
+    assert.equal(partial.needsPublish, true);
+  });
+
+  it('should only list line normalizers that made the files equal', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': '// Generated 2026-10-19T10:00:00Z\r\nmodule.exports = 1;\r\n' });
+    fs.writeFileSync(path.join(localDir, 'index.js'), '// Generated 2026-10-19T10:00:00Z\nmodule.exports = 1;\n');
+
+    const custom = { name: 'generated', pattern: '^// Generated .*$' };
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir, normalizeText: true, lineNormalizers: ['banner-timestamp', custom] });
+    assert.equal(result.needsPublish, false);
+    assert.deepEqual(result.changes, [{ type: 'file', field: 'package/index.js', action: 'modified', significance: 'informational', normalizations: ['eol'] }]);
+  });
+
+  it('should reject unknown line normalizer presets', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 0;\n' });
+
+    await assert.rejects(() => needsPublish({ cwd: localDir, baseline: baselineDir, lineNormalizers: ['timestamps'] }), /Unknown line normalizer preset: timestamps/);
+  });
+
+  it('should report declaration API changes', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 1;\n', 'index.d.ts': 'export declare function run(): void;\nexport declare function stop(): void;\n' });
+    fs.writeFileSync(path.join(localDir, 'index.d.ts'), '/** Run it */\nexport declare function run(): void;\n');
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(result.needsPublish, true);
+    assert.equal(result.recommendedBump, 'major');
+    assert.deepEqual(result.changes, [
+      { type: 'file', field: 'package/index.d.ts', action: 'modified', significance: 'significant' },
+      { type: 'api', field: 'package/index.d.ts#stop', oldValue: 'function stop(): void', newValue: undefined, significance: 'critical' },
+    ]);
+  });
+
+  it('should treat reformatted declarations as informational', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 1;\n', 'index.d.ts': '/** Run it */\nexport declare function run(): void;\nexport declare function stop(): void;\n' });
+    fs.writeFileSync(path.join(localDir, 'index.d.ts'), '// Generated\nexport declare function stop() : void\n/**\n * Run it\n */\nexport declare function run() : void\n');
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(result.needsPublish, false);
+    assert.deepEqual(result.changes, [{ type: 'file', field: 'package/index.d.ts', action: 'modified', significance: 'informational', normalizations: ['declaration'] }]);
+
+    const strict = await needsPublish({ cwd: localDir, baseline: baselineDir, compareDeclarations: false });
+    assert.equal(strict.needsPublish, true);
+  });
+
+  it('should publish JSDoc changes in declarations', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 1;\n', 'index.d.ts': '/** Run it */\nexport declare function run(): void;\n' });
+    fs.writeFileSync(path.join(localDir, 'index.d.ts'), '/**\n * Run it\n * @deprecated Use start\n */\nexport declare function run(): void;\n');
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(result.needsPublish, true);
+    assert.deepEqual(result.changes, [{ type: 'file', field: 'package/index.d.ts', action: 'modified', significance: 'significant' }]);
+  });
+
+  it('should treat reordered overloads as a declaration change', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 1;\n', 'index.d.ts': 'export declare function run(x: string): string;\nexport declare function run(x: unknown): unknown;\n' });
+    fs.writeFileSync(path.join(localDir, 'index.d.ts'), 'export declare function run(x: unknown): unknown;\nexport declare function run(x: string): string;\n');
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(result.needsPublish, true);
+    assert.deepEqual(
+      result.changes?.map((change) => `${change.type} ${change.field} ${change.significance}`),
+      ['file package/index.d.ts significant', 'api package/index.d.ts#run significant']
+    );
+  });
+
+  it('should compare whitespace inside declaration string literals', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 1;\n', 'index.d.ts': "export type Mode = 'a b';\nexport type Id = `id  v1`;\n" });
+    fs.writeFileSync(path.join(localDir, 'index.d.ts'), "export type Mode = 'a  b';\nexport type Id = `id v1`;\n");
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(result.needsPublish, true);
+    assert.deepEqual(
+      result.changes?.map((change) => change.field),
+      ['package/index.d.ts', 'package/index.d.ts#Mode', 'package/index.d.ts#Id']
+    );
+  });
+
+  it('should detect executable bit changes on bin scripts', async () => {
+    const binPkg = { ...pkg, bin: { 'baseline-test': './cli.js' } };
+    writePackage(localDir, binPkg, { 'cli.js': '#!/usr/bin/env node\n' });
+
+    // A release packed without the executable bit (npm pack always sets it on bin scripts)
+    const sourceDir = path.join(tempDir, 'source');
+    writePackage(sourceDir, binPkg, { 'index.js': 'module.exports = 1;\n', 'cli.js': '#!/usr/bin/env node\n' });
+    fs.chmodSync(path.join(sourceDir, 'cli.js'), 0o644);
+    const tarballPath = path.join(tempDir, 'baseline-test-package-1.0.0.tgz');
+    await tar.c({ gzip: true, cwd: sourceDir, prefix: 'package', file: tarballPath }, ['package.json', 'index.js', 'cli.js']);
+
+    const result = await needsPublish({ cwd: localDir, baseline: tarballPath });
+    assert.equal(result.needsPublish, true);
+    assert.equal(result.recommendedBump, 'patch');
+    assert.deepEqual(result.changes, [{ type: 'file', field: 'package/cli.js', action: 'mode-changed', significance: 'significant', oldValue: '0644', newValue: '0755' }]);
+  });
+
+  it('should treat bin script mode changes against the registry as informational', async () => {
+    const binPkg = { ...pkg, bin: { 'baseline-test': './cli.js' } };
+    writePackage(localDir, binPkg, { 'cli.js': '#!/usr/bin/env node\n' });
+
+    // A release packed without the executable bit, served from an offline cache
+    const sourceDir = path.join(tempDir, 'source');
+    writePackage(sourceDir, binPkg, { 'index.js': 'module.exports = 1;\n', 'cli.js': '#!/usr/bin/env node\n' });
+    fs.chmodSync(path.join(sourceDir, 'cli.js'), 0o644);
+    const tarballPath = path.join(tempDir, 'baseline-test-package-1.0.0.tgz');
+    await tar.c({ gzip: true, cwd: sourceDir, prefix: 'package', file: tarballPath }, ['package.json', 'index.js', 'cli.js']);
+    const tarball = fs.readFileSync(tarballPath);
+    const registry = 'http://registry.test/';
+    const cacheDir = path.join(tempDir, 'cache');
+    const integrity = `sha512-${crypto.createHash('sha512').update(tarball).digest('base64')}`;
+    writeCachedTarball(cacheDir, integrity, tarball);
+    writeCachedPackument(cacheDir, registry, binPkg.name, { name: binPkg.name, 'dist-tags': { latest: '1.0.0' }, versions: { '1.0.0': { ...binPkg, dist: { tarball: `${registry}baseline-test-package-1.0.0.tgz`, integrity } } } });
+
+    const result = await needsPublish({ cwd: localDir, npmConfig: { registry }, cacheDir, offline: true });
+    assert.equal(result.needsPublish, false);
+    assert.deepEqual(result.changes, [{ type: 'file', field: 'package/cli.js', action: 'mode-changed', significance: 'informational', oldValue: '0644', newValue: '0755' }]);
+  });
+
+  it('should keep the mode of a modified bin script', async () => {
+    const binPkg = { ...pkg, bin: { 'baseline-test': './cli.js' } };
+    writePackage(localDir, binPkg, { 'cli.js': '#!/usr/bin/env node\nrequire("./index.js");\n' });
+
+    const sourceDir = path.join(tempDir, 'source');
+    writePackage(sourceDir, binPkg, { 'index.js': 'module.exports = 1;\n', 'cli.js': '#!/usr/bin/env node\n' });
+    fs.chmodSync(path.join(sourceDir, 'cli.js'), 0o644);
+    const tarballPath = path.join(tempDir, 'baseline-test-package-1.0.0.tgz');
+    await tar.c({ gzip: true, cwd: sourceDir, prefix: 'package', file: tarballPath }, ['package.json', 'index.js', 'cli.js']);
+
+    const result = await needsPublish({ cwd: localDir, baseline: tarballPath });
+    assert.equal(result.needsPublish, true);
+    assert.deepEqual(result.changes, [{ type: 'file', field: 'package/cli.js', action: 'modified', significance: 'significant', oldValue: '0644', newValue: '0755' }]);
+  });
+
+  it('should treat mode changes of other files as informational', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 1;\n' });
+    fs.chmodSync(path.join(baselineDir, 'index.js'), 0o755);
+    fs.chmodSync(path.join(localDir, 'index.js'), 0o644);
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(result.needsPublish, false);
+    assert.deepEqual(result.changes, [{ type: 'file', field: 'package/index.js', action: 'mode-changed', significance: 'informational', oldValue: '0755', newValue: '0644' }]);
+  });
+
+  it('should report moved files as renames', async () => {
+    const utils = 'exports.add = (a, b) => a + b;\n';
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 1;\n', 'util.js': utils });
+    fs.mkdirSync(path.join(localDir, 'lib'));
+    fs.writeFileSync(path.join(localDir, 'lib', 'util.js'), utils);
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(result.needsPublish, true);
+    // Without exports, consumers may deep-import the old path
+    assert.equal(result.recommendedBump, 'major');
+    assert.deepEqual(result.changes, [{ type: 'file', field: 'package/lib/util.js', action: 'renamed', significance: 'significant', oldValue: 'package/util.js', newValue: 'package/lib/util.js' }]);
+  });
+
+  it('should flag renames that break an entry point as critical', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 1;\n' });
+    writePackage(localDir, { ...pkg, main: 'index', files: ['lib'] }, {});
+    fs.unlinkSync(path.join(localDir, 'index.js'));
+    fs.mkdirSync(path.join(localDir, 'lib'));
+    fs.writeFileSync(path.join(localDir, 'lib', 'index.js'), 'module.exports = 1;\n');
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(result.recommendedBump, 'major');
+    const rename = (result.changes || []).filter((change) => change.action === 'renamed');
+    assert.deepEqual(rename, [{ type: 'file', field: 'package/lib/index.js', action: 'renamed', significance: 'critical', oldValue: 'package/index.js', newValue: 'package/lib/index.js' }]);
+  });
+
+  it('should validate entry points of the packed package', async () => {
+    const baselineDir = path.join(tempDir, 'baseline');
+    writePackage(baselineDir, pkg, { 'index.js': 'module.exports = 1;\n' });
+    writePackage(localDir, { ...pkg, exports: { '.': './index.js', './feature': './dist/feature.js' } }, {});
+
+    const result = await needsPublish({ cwd: localDir, baseline: baselineDir, validateEntryPoints: true });
+    assert.deepEqual(result.errors, [{ field: 'exports["./feature"]', target: './dist/feature.js', message: 'exports["./feature"] target ./dist/feature.js is not in the package' }]);
+
+    const unchecked = await needsPublish({ cwd: localDir, baseline: baselineDir });
+    assert.equal(unchecked.errors, undefined);
+  });
+
+  it('should reject a missing baseline', async () => {
+    await assert.rejects(() => needsPublish({ cwd: localDir, baseline: path.join(tempDir, 'missing.tgz') }), /Baseline not found/);
+  });
+});
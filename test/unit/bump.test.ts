@@ -0,0 +1,142 @@
+import assert from 'assert';
+import { comparePackageJson, recommendBump } from 'npm-needs-publish';
+
+describe('bump', () => {
+  describe('recommendBump', () => {
+    const pkg = { name: 'bump-test', version: '1.0.0' };
+
+    it('should recommend none when there are no changes', () => {
+      assert.equal(recommendBump({}), 'none');
+    });
+
+    it('should recommend none for informational field changes', () => {
+      const result = recommendBump({
+        fieldChanges: [{ field: 'description', oldValue: 'a', newValue: 'b', significance: 'informational' }],
+      });
+      assert.equal(result, 'none');
+    });
+
+    it('should recommend patch for modified files', () => {
+      const result = recommendBump({
+        fileChanges: [{ path: 'package/index.js', action: 'modified' }],
+      });
+      assert.equal(result, 'patch');
+    });
+
+    it('should recommend minor for added files', () => {
+      const result = recommendBump({
+        fileChanges: [
+          { path: 'package/index.js', action: 'modified' },
+          { path: 'package/feature.js', action: 'added' },
+        ],
+      });
+      assert.equal(result, 'minor');
+    });
+
+    it('should recommend major for removed files without exports', () => {
+      const result = recommendBump({
+        fileChanges: [{ path: 'package/lib/util.js', action: 'removed' }],
+        registryPackage: { ...pkg, main: './index.js' },
+      });
+      assert.equal(result, 'major');
+    });
+
+    it('should recommend major for removed or renamed files reached by exports', () => {
+      const registryPackage = { ...pkg, exports: { '.': './index.js', './utils/*': './lib/*.js' } };
+      assert.equal(recommendBump({ fileChanges: [{ path: 'package/lib/util.js', action: 'removed' }], registryPackage }), 'major');
+      assert.equal(recommendBump({ fileChanges: [{ path: 'package/src/util.js', oldPath: 'package/lib/util.js', action: 'renamed' }], registryPackage }), 'major');
+    });
+
+    it('should recommend patch for removed or renamed files behind exports', () => {
+      const registryPackage = { ...pkg, exports: { '.': './index.js' } };
+      assert.equal(recommendBump({ fileChanges: [{ path: 'package/internal.js', action: 'removed' }], registryPackage }), 'patch');
+      assert.equal(recommendBump({ fileChanges: [{ path: 'package/src/internal.js', oldPath: 'package/internal.js', action: 'renamed' }], registryPackage }), 'patch');
+    });
+
+    it('should recommend major when an exports subpath is removed', () => {
+      const registry = { ...pkg, exports: { '.': './index.js', './feature': './feature.js' } };
+      const local = { ...pkg, exports: { '.': './index.js' } };
+      assert.equal(recommendBump(comparePackageJson(local, registry)), 'major');
+    });
+
+    it('should recommend major when exports is added', () => {
+      const local = { ...pkg, exports: { '.': './index.js' } };
+      assert.equal(recommendBump(comparePackageJson(local, { ...pkg })), 'major');
+    });
+
+    it('should recommend minor when an exports subpath is added', () => {
+      const registry = { ...pkg, exports: './index.js' };
+      const local = { ...pkg, exports: { '.': './index.js', './feature': './feature.js' } };
+      assert.equal(recommendBump(comparePackageJson(local, registry)), 'minor');
+    });
+
+    it('should recommend patch when an exports subpath resolves to another file', () => {
+      const registry = { ...pkg, exports: { '.': './index.js' } };
+      const local = { ...pkg, exports: { '.': './lib/index.js' } };
+      assert.equal(recommendBump(comparePackageJson(local, registry)), 'patch');
+    });
+
+    it('should recommend major when engines are narrowed', () => {
+      const result = recommendBump({
+        fieldChanges: [{ field: 'engines', oldValue: { node: '>=16' }, newValue: { node: '>=18' }, significance: 'significant' }],
+      });
+      assert.equal(result, 'major');
+    });
+
+    it('should recommend minor when engines are widened', () => {
+      const result = recommendBump({
+        fieldChanges: [{ field: 'engines', oldValue: { node: '>=18' }, newValue: { node: '>=16' }, significance: 'significant' }],
+      });
+      assert.equal(result, 'minor');
+    });
+
+    it('should recommend major when engines are added', () => {
+      const result = recommendBump({
+        fieldChanges: [{ field: 'engines', oldValue: undefined, newValue: { node: '>=18' }, significance: 'critical' }],
+      });
+      assert.equal(result, 'major');
+    });
+
+    it('should recommend major when an os platform is dropped', () => {
+      const result = recommendBump({
+        fieldChanges: [{ field: 'os', oldValue: ['linux', 'darwin'], newValue: ['linux'], significance: 'critical' }],
+      });
+      assert.equal(result, 'major');
+    });
+
+    it('should recommend major when a critical field is removed', () => {
+      const result = recommendBump({
+        fieldChanges: [{ field: 'bin', oldValue: { cli: './cli.js' }, newValue: undefined, significance: 'critical' }],
+      });
+      assert.equal(result, 'major');
+    });
+
+    it('should recommend minor for added dependencies', () => {
+      const result = recommendBump({
+        dependencyChanges: [{ name: 'lodash', type: 'dependencies', action: 'added', newSpec: '^4.0.0', semanticChange: 'incompatible' }],
+      });
+      assert.equal(result, 'minor');
+    });
+
+    it('should recommend patch for changed dependencies', () => {
+      const result = recommendBump({
+        dependencyChanges: [{ name: 'lodash', type: 'dependencies', action: 'changed', oldSpec: '^3.0.0', newSpec: '^4.0.0', semanticChange: 'incompatible' }],
+      });
+      assert.equal(result, 'patch');
+    });
+
+    it('should ignore equivalent dependency changes', () => {
+      const result = recommendBump({
+        dependencyChanges: [{ name: 'lodash', type: 'dependencies', action: 'changed', oldSpec: '^4.0.0', newSpec: '^4.1.0', semanticChange: 'equivalent' }],
+      });
+      assert.equal(result, 'none');
+    });
+
+    it('should recommend major for tightened peerDependencies', () => {
+      const result = recommendBump({
+        dependencyChanges: [{ name: 'react', type: 'peerDependencies', action: 'changed', oldSpec: '>=17', newSpec: '>=18', semanticChange: 'narrowed' }],
+      });
+      assert.equal(result, 'major');
+    });
+  });
+});
@@ -3,13 +3,56 @@
  */
 
 import assert from 'assert';
+import crypto from 'crypto';
 import fs from 'fs';
 import isVersion from 'is-version';
+import { type PackageJson, type Packument, writeCachedPackument, writeCachedTarball } from 'npm-needs-publish';
 import path from 'path';
+import * as tar from 'tar';
 import getLines from '../lib/getLines.ts';
 import { cleanupTempDir, createTempDir, getCliPath, runCommand } from '../lib/test-helpers.ts';
 
+// Registry served from a test cache with --offline
+const REGISTRY = 'http://registry.test/';
+
+function writePackage(dir: string, pkg: Record<string, unknown>, files: Record<string, string> = {}): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify(pkg, null, 2));
+  const names = Object.keys(files);
+  for (let i = 0; i < names.length; i++) fs.writeFileSync(path.join(dir, names[i]), files[names[i]]);
+}
+
+/**
+ * Publish package directories to REGISTRY in a cache directory (the last one is latest)
+ */
+function publishToCache(cacheDir: string, dirs: string[]): void {
+  let packument: Packument | undefined;
+  for (let i = 0; i < dirs.length; i++) {
+    const manifest = JSON.parse(fs.readFileSync(path.join(dirs[i], 'package.json'), 'utf8')) as PackageJson;
+    const tarballPath = `${dirs[i]}.tgz`;
+    tar.c({ gzip: true, sync: true, cwd: dirs[i], prefix: 'package', file: tarballPath }, fs.readdirSync(dirs[i]));
+    const tarball = fs.readFileSync(tarballPath);
+    const integrity = `sha512-${crypto.createHash('sha512').update(tarball).digest('base64')}`;
+    writeCachedTarball(cacheDir, integrity, tarball);
+
+    packument = packument || { name: manifest.name, 'dist-tags': {}, versions: {} };
+    packument.versions[manifest.version] = { ...manifest, dist: { tarball: `${REGISTRY}${path.basename(tarballPath)}`, integrity } };
+    packument['dist-tags'].latest = manifest.version;
+  }
+  if (packument) writeCachedPackument(cacheDir, REGISTRY, packument.name, packument);
+}
+
 describe('CLI', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir('cli-');
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
   describe('--version', () => {
     it('should output version and exit with code 0', () => {
       const cliPath = getCliPath();
@@ -49,16 +92,6 @@ describe('CLI', () => {
   });
 
   describe('exit codes', () => {
-    let tempDir: string;
-
-    beforeEach(() => {
-      tempDir = createTempDir('cli-exit-');
-    });
-
-    afterEach(() => {
-      cleanupTempDir(tempDir);
-    });
-
     it('should exit with code 2 for missing package.json', () => {
       const cliPath = getCliPath();
       const res = runCommand(`node ${cliPath} --cwd ${tempDir}`, process.cwd());
@@ -82,6 +115,26 @@ describe('CLI', () => {
       assert.ok(res.stdout.includes('NEEDS publishing'), 'Should indicate publish needed');
     });
 
+    it('should exit with code 3 when contents changed but the version is already published', () => {
+      const cliPath = getCliPath();
+
+      const cacheDir = path.join(tempDir, '.cache');
+      const publishedDir = path.join(tempDir, 'published');
+      const packageDir = path.join(tempDir, 'package');
+
+      // Same name and version as the published package, different contents
+      writePackage(publishedDir, { name: 'test-published-package', version: '1.0.0' }, { 'index.js': 'module.exports = 1;\n' });
+      writePackage(packageDir, { name: 'test-published-package', version: '1.0.0' }, { 'index.js': 'module.exports = 2;\n' });
+      publishToCache(cacheDir, [publishedDir]);
+
+      const res = runCommand(`node ${cliPath} --cwd ${packageDir} --registry ${REGISTRY} --offline --cache-dir ${cacheDir} --json`, process.cwd());
+
+      assert.equal(res.exitCode, 3, 'CLI should exit with code 3 when version already published');
+      const output = JSON.parse(res.stdout) as { needsPublish: boolean; blocked?: string };
+      assert.equal(output.needsPublish, true);
+      assert.equal(output.blocked, 'version-exists');
+    });
+
     it('should exit with code 0 for private packages (no publish needed)', () => {
       const cliPath = getCliPath();
 
@@ -100,17 +153,169 @@ describe('CLI', () => {
     });
   });
 
-  describe('--json output', () => {
-    let tempDir: string;
+  describe('--tag and --compare-to', () => {
+    it('should report a missing dist-tag instead of a first publish', () => {
+      const cliPath = getCliPath();
+      const cacheDir = path.join(tempDir, '.cache');
+      const packageDir = path.join(tempDir, 'package');
+
+      writePackage(packageDir, { name: 'test-tag-package', version: '1.0.0' });
+      publishToCache(cacheDir, [packageDir]);
+
+      const tag = 'next';
+      const res = runCommand(`node ${cliPath} --cwd ${packageDir} --registry ${REGISTRY} --offline --cache-dir ${cacheDir} --tag ${tag} --json`, process.cwd());
+
+      assert.equal(res.exitCode, 1, 'CLI should exit with code 1 when publish needed');
+      const output = JSON.parse(res.stdout) as { reason: string; changes: Array<{ type: string; field?: string }> };
+      assert.deepEqual(output.changes, [{ type: 'dist-tag-missing', field: tag, significance: 'critical' }]);
+      assert.ok(output.reason.includes('existing tags: latest'), 'Should list the existing dist-tags');
+    });
+
+    it('should default to the publishConfig tag', () => {
+      const cliPath = getCliPath();
+      const cacheDir = path.join(tempDir, '.cache');
+      const publishedDir = path.join(tempDir, 'published');
+      const packageDir = path.join(tempDir, 'package');
+
+      const packageJson = {
+        name: 'test-tag-package',
+        version: '1.0.0',
+        publishConfig: { tag: 'next' },
+      };
+      writePackage(publishedDir, { name: packageJson.name, version: packageJson.version });
+      writePackage(packageDir, packageJson);
+      publishToCache(cacheDir, [publishedDir]);
+
+      const res = runCommand(`node ${cliPath} --cwd ${packageDir} --registry ${REGISTRY} --offline --cache-dir ${cacheDir}`, process.cwd());
+
+      assert.equal(res.exitCode, 1, 'CLI should exit with code 1 when publish needed');
+      assert.ok(res.stdout.includes(packageJson.publishConfig.tag), 'Should compare against the publishConfig tag');
+    });
+
+    it('should compare against --compare-to when the local version is already published', () => {
+      const cliPath = getCliPath();
+      const cacheDir = path.join(tempDir, '.cache');
+      const packageDir = path.join(tempDir, 'package');
+      const v2Dir = path.join(tempDir, 'v2');
+
+      // 1.0.0 is published with the local contents, 1.1.0 with a different index.js
+      writePackage(packageDir, { name: 'test-compare-package', version: '1.0.0' }, { 'index.js': 'module.exports = 1;\n' });
+      writePackage(v2Dir, { name: 'test-compare-package', version: '1.1.0' }, { 'index.js': 'module.exports = 2;\n' });
+      publishToCache(cacheDir, [packageDir, v2Dir]);
+
+      const options = `--cwd ${packageDir} --registry ${REGISTRY} --offline --cache-dir ${cacheDir} --json`;
+      assert.equal(runCommand(`node ${cliPath} ${options}`, process.cwd()).exitCode, 0, 'Local version matches its published contents');
+
+      const res = runCommand(`node ${cliPath} ${options} --compare-to 1.1.0`, process.cwd());
+
+      assert.equal(res.exitCode, 3, 'CLI should compare against 1.1.0, not the published local version');
+      const output = JSON.parse(res.stdout) as { blocked?: string; changes: Array<{ type: string; field?: string }> };
+      assert.equal(output.blocked, 'version-exists');
+      assert.ok(
+        output.changes.some((c) => c.field === 'package/index.js'),
+        'Should report index.js changed against 1.1.0'
+      );
+    });
+
+    it('should exit with code 2 when the compare version does not exist', () => {
+      const cliPath = getCliPath();
+      const cacheDir = path.join(tempDir, '.cache');
+      const packageDir = path.join(tempDir, 'package');
+
+      writePackage(packageDir, { name: 'test-compare-package', version: '1.0.0' });
+      publishToCache(cacheDir, [packageDir]);
+
+      const res = runCommand(`node ${cliPath} --cwd ${packageDir} --registry ${REGISTRY} --offline --cache-dir ${cacheDir} --compare-to 999.0.0`, process.cwd());
 
+      assert.equal(res.exitCode, 2, 'CLI should exit with code 2 for error');
+      assert.ok(res.stderr.includes('999.0.0'), 'Should mention the missing version');
+    });
+  });
+
+  describe('--offline', () => {
+    it('should exit with code 2 when the packument is not cached', () => {
+      const cliPath = getCliPath();
+      const cacheDir = path.join(tempDir, '.cache');
+
+      const packageJson = {
+        name: 'test-offline-package',
+        version: '1.0.0',
+      };
+      fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+
+      const res = runCommand(`node ${cliPath} --cwd ${tempDir} --registry ${REGISTRY} --offline --cache-dir ${cacheDir}`, process.cwd());
+
+      assert.equal(res.exitCode, 2, 'CLI should exit with code 2 for error');
+      assert.ok(res.stderr.includes('offline mode'), 'Should mention offline mode');
+    });
+
+    it('should answer from the cache', () => {
+      const cliPath = getCliPath();
+      const cacheDir = path.join(tempDir, '.cache');
+      const packageDir = path.join(tempDir, 'package');
+
+      writePackage(packageDir, { name: 'test-offline-package', version: '1.0.0' }, { 'index.js': 'module.exports = 1;\n' });
+      publishToCache(cacheDir, [packageDir]);
+
+      const res = runCommand(`node ${cliPath} --cwd ${packageDir} --registry ${REGISTRY} --offline --cache-dir ${cacheDir} --json`, process.cwd());
+
+      assert.equal(res.exitCode, 0, res.stderr);
+      const output = JSON.parse(res.stdout) as { needsPublish: boolean };
+      assert.equal(output.needsPublish, false);
+    });
+  });
+
+  describe('--on-error', () => {
     beforeEach(() => {
-      tempDir = createTempDir('cli-json-');
+      const packageJson = {
+        name: 'test-on-error-package',
+        version: '1.0.0',
+      };
+      fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+    });
+
+    // Nothing listens on the discard port, so the registry request fails immediately
+    const unreachableRegistry = 'http://127.0.0.1:9/';
+
+    it('should assume changed on registry errors by default', () => {
+      const cliPath = getCliPath();
+      const res = runCommand(`node ${cliPath} --cwd ${tempDir} --registry ${unreachableRegistry} --json`, process.cwd());
+
+      assert.equal(res.exitCode, 1, 'CLI should exit with code 1 when publish needed');
+      const output = JSON.parse(res.stdout) as { status: string; errorCode?: string };
+      assert.equal(output.status, 'publish');
+      assert.equal(output.errorCode, 'ECONNREFUSED');
     });
 
-    afterEach(() => {
-      cleanupTempDir(tempDir);
+    it('should exit with code 4 with --on-error unknown', () => {
+      const cliPath = getCliPath();
+      const res = runCommand(`node ${cliPath} --cwd ${tempDir} --registry ${unreachableRegistry} --on-error unknown --json`, process.cwd());
+
+      assert.equal(res.exitCode, 4, 'CLI should exit with code 4 when undetermined');
+      const output = JSON.parse(res.stdout) as { needsPublish: boolean; status: string; errorCode?: string };
+      assert.equal(output.needsPublish, false);
+      assert.equal(output.status, 'unknown');
+      assert.equal(output.errorCode, 'ECONNREFUSED');
     });
 
+    it('should exit with code 2 with --on-error throw', () => {
+      const cliPath = getCliPath();
+      const res = runCommand(`node ${cliPath} --cwd ${tempDir} --registry ${unreachableRegistry} --on-error throw`, process.cwd());
+
+      assert.equal(res.exitCode, 2, 'CLI should exit with code 2 for error');
+      assert.ok(res.stderr.includes('ECONNREFUSED'), 'Should print the registry error');
+    });
+
+    it('should reject an invalid mode', () => {
+      const cliPath = getCliPath();
+      const res = runCommand(`node ${cliPath} --cwd ${tempDir} --on-error ignore`, process.cwd());
+
+      assert.equal(res.exitCode, 2, 'CLI should exit with code 2 for error');
+      assert.ok(res.stderr.includes('Invalid --on-error mode'));
+    });
+  });
+
+  describe('--json output', () => {
     it('should output valid JSON when --json flag is used', () => {
       const cliPath = getCliPath();
 
@@ -156,16 +361,6 @@ describe('CLI', () => {
   });
 
   describe('--verbose output', () => {
-    let tempDir: string;
-
-    beforeEach(() => {
-      tempDir = createTempDir('cli-verbose-');
-    });
-
-    afterEach(() => {
-      cleanupTempDir(tempDir);
-    });
-
     it('should show detailed output with --verbose flag', () => {
       const cliPath = getCliPath();
 
@@ -199,17 +394,185 @@ describe('CLI', () => {
     });
   });
 
-  describe('positional argument', () => {
-    let tempDir: string;
+  describe('--diff', () => {
+    it('should print a diff of changed files', () => {
+      const cliPath = getCliPath();
 
-    beforeEach(() => {
-      tempDir = createTempDir('cli-pos-');
+      const packageJson = {
+        name: 'test-diff-package',
+        version: '1.0.0',
+      };
+      const localDir = path.join(tempDir, 'local');
+      const baselineDir = path.join(tempDir, 'baseline');
+      fs.mkdirSync(localDir);
+      fs.mkdirSync(baselineDir);
+      fs.writeFileSync(path.join(localDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+      fs.writeFileSync(path.join(baselineDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+      fs.writeFileSync(path.join(localDir, 'index.js'), 'module.exports = 2;\n');
+      fs.writeFileSync(path.join(baselineDir, 'index.js'), 'module.exports = 1;\n');
+
+      const res = runCommand(`node ${cliPath} --cwd ${localDir} --against ${baselineDir} --diff`, process.cwd());
+
+      assert.equal(res.exitCode, 1, 'CLI should exit with code 1 when publish needed');
+      assert.ok(res.stdout.includes('File: package/index.js (+1, -1)'), 'Should summarize line counts');
+      assert.ok(res.stdout.includes('-module.exports = 1;\n+module.exports = 2;'), 'Should print the diff');
+    });
+
+    it('should resolve --against relative to --cwd', () => {
+      const cliPath = getCliPath();
+
+      writePackage(path.join(tempDir, 'local'), { name: 'test-against-package', version: '1.0.0' }, { 'index.js': 'module.exports = 1;\n' });
+      writePackage(path.join(tempDir, 'baseline'), { name: 'test-against-package', version: '1.0.0' }, { 'index.js': 'module.exports = 1;\n' });
+
+      const res = runCommand(`node ${cliPath} --cwd ${path.join(tempDir, 'local')} --against ../baseline`, process.cwd());
+
+      assert.equal(res.exitCode, 0, res.stderr);
+    });
+  });
+
+  describe('--validate-entry-points', () => {
+    it('should exit with code 5 when an entry point is missing', () => {
+      const cliPath = getCliPath();
+
+      const packageJson = {
+        name: 'test-validate-package',
+        version: '1.0.0',
+        main: './dist/index.js',
+      };
+      const localDir = path.join(tempDir, 'local');
+      const baselineDir = path.join(tempDir, 'baseline');
+      fs.mkdirSync(localDir);
+      fs.mkdirSync(baselineDir);
+      fs.writeFileSync(path.join(localDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+      fs.writeFileSync(path.join(baselineDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+
+      const res = runCommand(`node ${cliPath} --cwd ${localDir} --against ${baselineDir} --validate-entry-points`, process.cwd());
+
+      assert.equal(res.exitCode, 5, 'CLI should exit with code 5 for missing entry points');
+      assert.ok(res.stdout.includes('main target ./dist/index.js is not in the package'), 'Should list the missing target');
+
+      fs.mkdirSync(path.join(localDir, 'dist'));
+      fs.writeFileSync(path.join(localDir, 'dist', 'index.js'), 'module.exports = 1;\n');
+      const built = runCommand(`node ${cliPath} --cwd ${localDir} --against ${baselineDir} --validate-entry-points`, process.cwd());
+      assert.equal(built.exitCode, 1, 'CLI should exit with code 1 once the build output exists');
+    });
+  });
+
+  describe('bump command', () => {
+    it('should print none for packages without compared changes', () => {
+      const cliPath = getCliPath();
+
+      const packageJson = {
+        name: 'test-bump-package',
+        version: '1.0.0',
+        private: true,
+      };
+      fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+
+      const res = runCommand(`node ${cliPath} bump ${tempDir}`, process.cwd());
+
+      assert.equal(res.exitCode, 0, 'CLI should exit with code 0');
+      assert.equal(res.stdout.trim(), 'none');
+    });
+
+    it('should print unknown and exit non-zero for a first publish', () => {
+      const cliPath = getCliPath();
+
+      const packageJson = {
+        name: `@test-npm-needs-publish/nonexistent-bump-test-${Date.now()}`,
+        version: '1.0.0',
+      };
+      fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+
+      const res = runCommand(`node ${cliPath} bump ${tempDir}`, process.cwd());
+
+      assert.equal(res.exitCode, 1, 'CLI should exit with code 1');
+      assert.equal(res.stdout.trim(), 'unknown');
+      assert.ok(res.stderr.includes('first publish'), 'Should explain why the contents were not compared');
+    });
+
+    it('should print unknown and exit non-zero when the version was already bumped', () => {
+      const cliPath = getCliPath();
+      const cacheDir = path.join(tempDir, '.cache');
+      const publishedDir = path.join(tempDir, 'published');
+      const packageDir = path.join(tempDir, 'package');
+
+      writePackage(publishedDir, { name: 'test-bump-package', version: '1.0.0' });
+      writePackage(packageDir, { name: 'test-bump-package', version: '1.1.0' });
+      publishToCache(cacheDir, [publishedDir]);
+
+      const res = runCommand(`node ${cliPath} bump ${packageDir} --registry ${REGISTRY} --offline --cache-dir ${cacheDir} --json`, process.cwd());
+
+      assert.equal(res.exitCode, 1, 'CLI should exit with code 1');
+      const output = JSON.parse(res.stdout) as { recommendedBump: string; reason: string };
+      assert.equal(output.recommendedBump, 'unknown');
+      assert.ok(output.reason.includes('Version differs'), 'Should report the version change');
     });
 
-    afterEach(() => {
-      cleanupTempDir(tempDir);
+    it('should print unknown and exit non-zero when registry errors assume changes', () => {
+      const cliPath = getCliPath();
+
+      const packageJson = {
+        name: 'test-bump-package',
+        version: '1.0.0',
+      };
+      fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+
+      // Nothing listens on the discard port, so the registry request fails immediately
+      const res = runCommand(`node ${cliPath} bump ${tempDir} --registry http://127.0.0.1:9/`, process.cwd());
+
+      assert.equal(res.exitCode, 1, 'CLI should exit with code 1');
+      assert.equal(res.stdout.trim(), 'unknown');
     });
 
+    it('should exit with code 4 with --on-error unknown', () => {
+      const cliPath = getCliPath();
+
+      const packageJson = {
+        name: 'test-bump-package',
+        version: '1.0.0',
+      };
+      fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+
+      const res = runCommand(`node ${cliPath} bump ${tempDir} --registry http://127.0.0.1:9/ --on-error unknown`, process.cwd());
+
+      assert.equal(res.exitCode, 4, 'CLI should exit with code 4 when undetermined');
+      assert.equal(res.stdout.trim(), 'unknown');
+    });
+  });
+
+  describe('--workspaces', () => {
+    it('should print a table of workspace packages', () => {
+      const cliPath = getCliPath();
+
+      const name = `@test-npm-needs-publish/cli-workspace-${Date.now()}`;
+      fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify({ name: 'root', private: true, workspaces: ['packages/*'] }, null, 2));
+      fs.mkdirSync(path.join(tempDir, 'packages', 'a'), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, 'packages', 'a', 'package.json'), JSON.stringify({ name, version: '1.0.0' }, null, 2));
+
+      const res = runCommand(`node ${cliPath} --workspaces --cwd ${tempDir}`, process.cwd());
+
+      assert.equal(res.exitCode, 1, 'CLI should exit with code 1 when any package needs publishing');
+      assert.ok(res.stdout.includes('Package'), 'Should print a table header');
+      assert.ok(res.stdout.includes(name), 'Should list the workspace package');
+      assert.ok(res.stdout.includes('publish'), 'Should show the package status');
+    });
+
+    it('should output a JSON array with --json', () => {
+      const cliPath = getCliPath();
+
+      fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify({ name: 'root', private: true, workspaces: ['packages/*'] }, null, 2));
+      fs.mkdirSync(path.join(tempDir, 'packages', 'a'), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, 'packages', 'a', 'package.json'), JSON.stringify({ name: 'private-a', version: '1.0.0', private: true }, null, 2));
+
+      const res = runCommand(`node ${cliPath} --workspaces --json --cwd ${tempDir}`, process.cwd());
+
+      assert.equal(res.exitCode, 0, 'CLI should exit with code 0');
+      assert.deepEqual(JSON.parse(res.stdout), []);
+    });
+  });
+
+  describe('positional argument', () => {
     it('should accept directory as positional argument', () => {
       const cliPath = getCliPath();
 
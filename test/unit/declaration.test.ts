@@ -0,0 +1,86 @@
+import assert from 'assert';
+import { compareDeclarations, extractDeclarationExports } from 'npm-needs-publish';
+
+describe('declaration', () => {
+  describe('extractDeclarationExports', () => {
+    it('should extract exported declarations', () => {
+      const exports = extractDeclarationExports(`import type { Options } from './types';
+/** Create a client */
+export declare function createClient(options?: Options): Client;
+export declare function createClient(url: string): Client;
+export interface Client {
+    get(key: string): Promise<string>;
+}
+export type Mode = 'a' | 'b';
+export declare const VERSION: string, DEFAULT_MODE: Mode;
+declare class Internal {
+}
+export {};
+`);
+      assert.deepEqual(Object.keys(exports), ['createClient', 'Client', 'Mode', 'VERSION', 'DEFAULT_MODE']);
+      assert.equal(exports.createClient, 'function createClient(options?: Options): Client\nfunction createClient(url: string): Client');
+      assert.equal(exports.Client, 'interface Client { get(key: string): Promise<string>; }');
+      assert.equal(exports.DEFAULT_MODE, 'const DEFAULT_MODE: Mode');
+    });
+
+    it('should resolve export lists, defaults and re-exports', () => {
+      const exports = extractDeclarationExports(`import { Base } from './base';
+declare function helper(): void;
+declare class Widget extends Base {
+    render(): void;
+}
+export { helper as run, Widget, Base };
+export * from './types';
+export * as utils from './utils';
+export { parse } from './parse';
+export default Widget;
+`);
+      assert.deepEqual(Object.keys(exports), ["* from './types'", 'utils', 'parse', 'run', 'Widget', 'Base', 'default']);
+      assert.equal(exports.run, 'function helper(): void');
+      assert.equal(exports.Base, "import { Base } from './base'");
+      assert.equal(exports.parse, "parse from './parse'");
+      assert.equal(exports.default, exports.Widget);
+    });
+
+    it('should treat declarations in global scripts and augmentations as API', () => {
+      assert.deepEqual(Object.keys(extractDeclarationExports('declare function $(selector: string): Element;\ninterface Window { app: unknown }\n')), ['$', 'Window']);
+      assert.deepEqual(Object.keys(extractDeclarationExports("export {};\ndeclare global {\n  var __APP__: string;\n}\ndeclare module 'express' {\n  interface Request { user?: string }\n}\n")), ['global', "module 'express'"]);
+    });
+
+    it('should split declarations without semicolons', () => {
+      const exports = extractDeclarationExports('export type A = {\n  a: string\n}\nexport type B = A | null\nexport interface C {\n  c: B\n}\n');
+      assert.deepEqual(Object.keys(exports), ['A', 'B', 'C']);
+      assert.equal(exports.B, 'type B = A | null');
+    });
+  });
+
+  describe('compareDeclarations', () => {
+    const registry = 'export declare function a(x: number): void;\nexport declare function b(): string;\nexport interface Options {\n  debug?: boolean;\n}\n';
+
+    it('should ignore comments and formatting', () => {
+      const local = '/** Run a */\nexport declare function a(x:number):void;\nexport declare function b(): string;\nexport interface Options { debug?: boolean }\n';
+      assert.deepEqual(compareDeclarations(local, registry), []);
+    });
+
+    it('should report added, removed and changed exports', () => {
+      const local = 'export declare function a(x: number, y?: number): void;\nexport interface Options {\n  debug?: boolean;\n}\nexport declare const c: number;\n';
+      assert.deepEqual(compareDeclarations(local, registry), [
+        { name: 'a', action: 'changed', oldSignature: 'function a(x: number): void', newSignature: 'function a(x: number, y?: number): void' },
+        { name: 'b', action: 'removed', oldSignature: 'function b(): string' },
+        { name: 'c', action: 'added', newSignature: 'const c: number' },
+      ]);
+    });
+
+    it('should keep whitespace in string literal types', () => {
+      const changes = compareDeclarations("export type Sep = ' - ';\n", "export type Sep = '  -  ';\n");
+      assert.deepEqual(changes, [{ name: 'Sep', action: 'changed', oldSignature: "type Sep = '  -  '", newSignature: "type Sep = ' - '" }]);
+    });
+
+    it('should treat a removed file as removing its exports', () => {
+      assert.deepEqual(
+        compareDeclarations(undefined, registry).map((change) => `${change.action} ${change.name}`),
+        ['removed a', 'removed b', 'removed Options']
+      );
+    });
+  });
+});
@@ -213,6 +213,77 @@ describe('dependency', () => {
       });
     });
 
+    describe('workspaceVersions option', () => {
+      it('should resolve workspace: specifiers against sibling versions', () => {
+        const local: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+          dependencies: { 'pkg-a': 'workspace:^', 'pkg-b': 'workspace:*' },
+        };
+        const registry: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+          dependencies: { 'pkg-a': '^1.4.2', 'pkg-b': '2.0.0' },
+        };
+
+        const result = compareDependencies(local, registry, { workspaceVersions: { 'pkg-a': '1.4.2', 'pkg-b': '2.0.0' } });
+        assert.equal(result.hasChanges, false);
+      });
+
+      it('should detect a sibling version outside the published range', () => {
+        const local: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+          dependencies: { 'pkg-a': 'workspace:^' },
+        };
+        const registry: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+          dependencies: { 'pkg-a': '^1.4.2' },
+        };
+
+        const result = compareDependencies(local, registry, { workspaceVersions: { 'pkg-a': '2.0.0' } });
+        assert.equal(result.hasChanges, true);
+        assert.equal(result.significantChanges[0].name, 'pkg-a');
+      });
+    });
+
+    describe('catalogs option', () => {
+      it('should resolve catalog: specifiers against catalog ranges', () => {
+        const local: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+          dependencies: { react: 'catalog:react18', lodash: 'catalog:' },
+        };
+        const registry: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+          dependencies: { react: '^18.2.0', lodash: '^4.17.21' },
+        };
+
+        const catalogs = { default: { lodash: '^4.17.21' }, react18: { react: '^18.2.0' } };
+        const result = compareDependencies(local, registry, { catalogs });
+        assert.equal(result.hasChanges, false);
+      });
+
+      it('should detect a catalog range change', () => {
+        const local: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+          dependencies: { react: 'catalog:' },
+        };
+        const registry: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+          dependencies: { react: '^18.2.0' },
+        };
+
+        const result = compareDependencies(local, registry, { catalogs: { default: { react: '^19.0.0' } } });
+        assert.equal(result.hasChanges, true);
+        assert.equal(result.significantChanges[0].name, 'react');
+      });
+    });
+
     describe('treatNarrowingAsEquivalent option', () => {
       it('should treat * → ^4.17.0 as equivalent by default (optimistic)', () => {
         const local: PackageJson = {
@@ -0,0 +1,39 @@
+import assert from 'assert';
+import { validateEntryPoints } from 'npm-needs-publish';
+
+describe('entry-points', () => {
+  describe('validateEntryPoints', () => {
+    const pkg = { name: 'entry-points-test', version: '1.0.0' };
+    const files = ['package/package.json', 'package/dist/index.js', 'package/dist/index.d.ts', 'package/dist/cli.js', 'package/dist/utils/a.mjs', 'package/lib/index.js'];
+
+    it('should accept targets that exist', () => {
+      const manifest = {
+        ...pkg,
+        main: 'dist/index',
+        types: './dist/index.d.ts',
+        bin: { tool: './dist/cli.js' },
+        exports: { '.': { types: './dist/index.d.ts', default: './dist/index.js' }, './utils/*': './dist/utils/*.mjs', './lib/': './lib/', './internal/*': null },
+      };
+      assert.deepEqual(validateEntryPoints(manifest, files), []);
+    });
+
+    it('should resolve main to a directory index', () => {
+      assert.deepEqual(validateEntryPoints({ ...pkg, main: './lib' }, files), []);
+    });
+
+    it('should report missing targets by field', () => {
+      const manifest = {
+        ...pkg,
+        main: './build/index.js',
+        module: './dist/index.mjs',
+        bin: 'bin/cli.js',
+        exports: { '.': { import: './dist/index.mjs', require: './dist/index.js' }, './helpers/*': './dist/helpers/*.js' },
+      };
+      assert.deepEqual(
+        validateEntryPoints(manifest, files).map((error) => error.field),
+        ['main', 'module', 'bin', 'exports["."].import', 'exports["./helpers/*"]']
+      );
+      assert.equal(validateEntryPoints({ ...pkg, main: './build/index.js' }, files)[0].message, 'main target ./build/index.js is not in the package');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import assert from 'assert';
+import { compareExports, comparePackageJson, recommendBump } from 'npm-needs-publish';
+
+describe('exports', () => {
+  describe('compareExports', () => {
+    it('should treat shorthand forms as equal', () => {
+      assert.deepEqual(compareExports('./index.js', { '.': './index.js' }), []);
+      assert.deepEqual(compareExports({ default: './index.js' }, ['./index.js']), []);
+    });
+
+    it('should ignore subpath order', () => {
+      const registry = { '.': './index.js', './utils': './utils.js' };
+      const local = { './utils': './utils.js', '.': './index.js' };
+      assert.deepEqual(compareExports(local, registry), []);
+    });
+
+    it('should report condition reordering that changes the resolved target', () => {
+      const registry = { '.': { import: './index.mjs', default: './index.js' } };
+      const local = { '.': { default: './index.js', import: './index.mjs' } };
+      assert.deepEqual(compareExports(local, registry), [{ field: 'exports', subpath: '.', conditions: ['import'], oldValue: './index.mjs', newValue: './index.js', significance: 'significant' }]);
+    });
+
+    it('should report the condition whose target changed', () => {
+      const registry = { '.': { import: './index.mjs', require: './index.cjs' } };
+      const local = { '.': { import: './index.mjs', require: './dist/index.cjs' } };
+      assert.deepEqual(compareExports(local, registry), [{ field: 'exports', subpath: '.', conditions: ['require'], oldValue: './index.cjs', newValue: './dist/index.cjs', significance: 'significant' }]);
+    });
+
+    it('should report removed subpaths and conditions as critical and added ones as significant', () => {
+      const registry = { '.': { types: './index.d.ts', default: './index.js' }, './legacy': './legacy.js' };
+      const local = { '.': './index.js', './feature': './feature.js' };
+      const changes = compareExports(local, registry);
+
+      assert.deepEqual(
+        changes.map((change) => [change.subpath, change.conditions, change.newValue, change.significance]),
+        [
+          ['.', ['types'], './index.js', 'significant'],
+          ['./legacy', [], undefined, 'critical'],
+          ['./feature', [], './feature.js', 'significant'],
+        ]
+      );
+      assert.deepEqual(compareExports({ '.': { import: './index.mjs' } }, { '.': { import: './index.mjs', require: './index.cjs' } })[0].significance, 'critical');
+    });
+
+    it('should treat null targets as not exported', () => {
+      assert.deepEqual(compareExports({ '.': './index.js', './internal/*': null }, { '.': './index.js' }), []);
+    });
+  });
+
+  describe('comparePackageJson', () => {
+    it('should not report reordered subpaths', () => {
+      const local = { name: 'test', version: '1.0.0', exports: { './package.json': './package.json', '.': './index.js' } };
+      const registry = { name: 'test', version: '1.0.0', exports: { '.': './index.js', './package.json': './package.json' } };
+      assert.equal(comparePackageJson(local, registry).hasSignificantChanges, false);
+    });
+
+    it('should recommend a bump per subpath change', () => {
+      const registry = { name: 'test', version: '1.0.0', exports: { '.': './index.js', './legacy': './legacy.js' } };
+      assert.equal(recommendBump(comparePackageJson({ name: 'test', version: '1.0.0', exports: { '.': './dist/index.js', './legacy': './legacy.js' } }, registry)), 'patch');
+      assert.equal(recommendBump(comparePackageJson({ name: 'test', version: '1.0.0', exports: { '.': './index.js', './legacy': './legacy.js', './new': './new.js' } }, registry)), 'minor');
+      assert.equal(recommendBump(comparePackageJson({ name: 'test', version: '1.0.0', exports: { '.': './index.js' } }, registry)), 'major');
+    });
+  });
+});
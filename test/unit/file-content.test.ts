@@ -1,7 +1,7 @@
 import assert from 'assert';
 import { execSync } from 'child_process';
 import fs from 'fs';
-import { extractPackageJson } from 'npm-needs-publish';
+import { createFileDiff, extractPackageJson } from 'npm-needs-publish';
 import os from 'os';
 import path from 'path';
 
@@ -84,5 +84,47 @@ describe('file-content', () => {
         fs.rmSync(tmpDir, { recursive: true, force: true });
       }
     });
+
+    it('should read the root package.json when a nested one comes first', async () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'npm-needs-publish-test-'));
+
+      try {
+        fs.mkdirSync(path.join(tmpDir, 'package', 'dist', 'cjs'), { recursive: true });
+        fs.writeFileSync(path.join(tmpDir, 'package', 'dist', 'cjs', 'package.json'), JSON.stringify({ type: 'commonjs' }));
+        fs.writeFileSync(path.join(tmpDir, 'package', 'package.json'), JSON.stringify({ name: 'test-pkg-nested', version: '1.0.0' }));
+
+        // The nested package.json is the first entry of the tarball
+        execSync('tar czf nested.tgz package/dist/cjs/package.json package/package.json', { cwd: tmpDir, stdio: 'pipe' });
+        const extracted = (await extractPackageJson(fs.readFileSync(path.join(tmpDir, 'nested.tgz')))) as Record<string, unknown>;
+        assert.equal(extracted.name, 'test-pkg-nested');
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('createFileDiff', () => {
+    it('should create a unified diff with line counts', () => {
+      const diff = createFileDiff('package/index.js', Buffer.from('a\nb\nc\n'), Buffer.from('a\nB\nc\nd\n'));
+      assert.equal(diff.linesAdded, 2);
+      assert.equal(diff.linesRemoved, 1);
+      assert.equal(diff.patch, '--- a/index.js\n+++ b/index.js\n@@ -1,3 +1,4 @@\n a\n-b\n+B\n c\n+d');
+    });
+
+    it('should diff added files against /dev/null', () => {
+      const diff = createFileDiff('package/new.js', undefined, Buffer.from('x\n'));
+      assert.equal(diff.linesAdded, 1);
+      assert.ok(diff.patch?.indexOf('--- /dev/null\n+++ b/new.js') === 0);
+    });
+
+    it('should skip binary files', () => {
+      const diff = createFileDiff('package/image.png', Buffer.from([0x89, 0x50, 0x00]), Buffer.from([0x89, 0x51, 0x00]));
+      assert.deepEqual(diff, { skipped: 'binary' });
+    });
+
+    it('should skip files over the size cap', () => {
+      const diff = createFileDiff('package/big.js', Buffer.from('a\n'), Buffer.from('abcdef\n'), 4);
+      assert.deepEqual(diff, { skipped: 'too-large' });
+    });
   });
 });
@@ -0,0 +1,92 @@
+import assert from 'assert';
+import fs from 'fs';
+import { getAuthOptions, parseNpmrc, readNpmConfig, resolveRegistry } from 'npm-needs-publish';
+import path from 'path';
+import { cleanupTempDir, createTempDir } from '../lib/test-helpers.ts';
+
+// Environment reference as written in .npmrc: ${NAME}
+function envRef(name: string): string {
+  return `$\{${name}}`;
+}
+
+describe('npmrc', () => {
+  describe('parseNpmrc', () => {
+    it('should parse keys, quoted values and comments', () => {
+      const config = parseNpmrc('# comment\n; comment\nregistry = "https://registry.example.com/"\n@scope:registry=https://npm.example.com/\n', {});
+      assert.deepEqual(config, { registry: 'https://registry.example.com/', '@scope:registry': 'https://npm.example.com/' });
+    });
+
+    it('should expand environment variables', () => {
+      const config = parseNpmrc(`//npm.example.com/:_authToken=${envRef('NPM_TOKEN')}\nemail=${envRef('MISSING?')}\n`, { NPM_TOKEN: 'secret' });
+      assert.equal(config['//npm.example.com/:_authToken'], 'secret');
+      assert.equal(config.email, '');
+    });
+  });
+
+  describe('readNpmConfig', () => {
+    let tempDir: string;
+    let env: NodeJS.ProcessEnv;
+
+    beforeEach(() => {
+      tempDir = createTempDir('npmrc-');
+      fs.writeFileSync(path.join(tempDir, 'globalrc'), 'registry=https://global.example.com/\n@scope:registry=https://global-scope.example.com/\n');
+      fs.writeFileSync(path.join(tempDir, 'userrc'), 'registry=https://user.example.com/\n');
+      env = { npm_config_globalconfig: path.join(tempDir, 'globalrc'), npm_config_userconfig: path.join(tempDir, 'userrc') };
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    it('should let user config override global config', () => {
+      const config = readNpmConfig(tempDir, env);
+      assert.equal(config.registry, 'https://user.example.com/');
+      assert.equal(config['@scope:registry'], 'https://global-scope.example.com/');
+    });
+
+    it('should find the project .npmrc above the package directory', () => {
+      const pkgDir = path.join(tempDir, 'packages', 'a');
+      fs.mkdirSync(pkgDir, { recursive: true });
+      fs.writeFileSync(path.join(tempDir, '.npmrc'), 'registry=https://project.example.com/\n');
+
+      assert.equal(readNpmConfig(pkgDir, env).registry, 'https://project.example.com/');
+    });
+
+    it('should let npm_config_* variables override files', () => {
+      const config = readNpmConfig(tempDir, { ...env, npm_config_registry: 'https://env.example.com/', 'npm_config_//env.example.com/:_authToken': 'token' });
+      assert.equal(config.registry, 'https://env.example.com/');
+      assert.equal(config['//env.example.com/:_authToken'], 'token');
+    });
+  });
+
+  describe('resolveRegistry', () => {
+    const config = { registry: 'https://registry.example.com/', '@scope:registry': 'https://npm.example.com/' };
+
+    it('should prefer the scope registry', () => {
+      assert.equal(resolveRegistry('@scope/pkg', config), 'https://npm.example.com/');
+    });
+
+    it('should fall back to the default registry', () => {
+      assert.equal(resolveRegistry('@other/pkg', config), 'https://registry.example.com/');
+      assert.equal(resolveRegistry('pkg', config), 'https://registry.example.com/');
+      assert.equal(resolveRegistry('pkg', {}), undefined);
+    });
+  });
+
+  describe('getAuthOptions', () => {
+    it('should keep only nerf-darted credentials', () => {
+      const auth = getAuthOptions({
+        registry: 'https://npm.example.com/',
+        '//npm.example.com/:_authToken': 'token',
+        '//other.example.com/:username': 'user',
+        '//other.example.com/:_password': 'cGFzcw==',
+        '//npm.example.com/:always-auth': 'true',
+      });
+      assert.deepEqual(auth, {
+        '//npm.example.com/:_authToken': 'token',
+        '//other.example.com/:username': 'user',
+        '//other.example.com/:_password': 'cGFzcw==',
+      });
+    });
+  });
+});
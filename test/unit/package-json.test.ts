@@ -1,5 +1,5 @@
 import assert from 'assert';
-import { comparePackageJson, type PackageJson } from 'npm-needs-publish';
+import { comparePackageJson, type PackageJson, recommendBump } from 'npm-needs-publish';
 
 describe('package-json', () => {
   describe('comparePackageJson', () => {
@@ -90,6 +90,109 @@ describe('package-json', () => {
       });
     });
 
+    describe('compatibility constraints', () => {
+      const base: PackageJson = { name: 'test', version: '1.0.0' };
+
+      it('should classify engines changes by range', () => {
+        const narrowed = comparePackageJson({ ...base, engines: { node: '>=18' } }, { ...base, engines: { node: '>=16' } });
+        assert.equal(narrowed.fieldChanges[0].significance, 'critical');
+
+        const widened = comparePackageJson({ ...base, engines: { node: '>=16' } }, { ...base, engines: { node: '>=18' } });
+        assert.equal(widened.fieldChanges[0].significance, 'significant');
+
+        const added = comparePackageJson({ ...base, engines: { node: '>=16', npm: '>=8' } }, { ...base, engines: { node: '>=16' } });
+        assert.equal(added.fieldChanges[0].significance, 'critical');
+      });
+
+      it('should flag caret and tilde narrowing within the same major', () => {
+        const caret = comparePackageJson({ ...base, engines: { node: '^16.5.0' } }, { ...base, engines: { node: '^16.0.0' } });
+        assert.equal(caret.hasSignificantChanges, true);
+        assert.equal(caret.fieldChanges[0].significance, 'critical');
+
+        const tilde = comparePackageJson({ ...base, engines: { node: '~16.1.5' } }, { ...base, engines: { node: '~16.1.0' } });
+        assert.equal(tilde.hasSignificantChanges, true);
+        assert.equal(tilde.fieldChanges[0].significance, 'critical');
+
+        assert.equal(recommendBump(caret), 'major');
+      });
+
+      it('should flag disjoint engines ranges', () => {
+        const result = comparePackageJson({ ...base, engines: { node: '^18.0.0' } }, { ...base, engines: { node: '^16.0.0' } });
+        assert.equal(result.fieldChanges[0].significance, 'critical');
+      });
+
+      it('should ignore equivalent engines ranges', () => {
+        const result = comparePackageJson({ ...base, engines: { node: '>= 18.0.0' } }, { ...base, engines: { node: '>=18' } });
+        assert.deepEqual(result.fieldChanges, []);
+      });
+
+      it('should compare os and cpu as sets', () => {
+        assert.deepEqual(comparePackageJson({ ...base, os: ['darwin', 'linux', 'linux'] }, { ...base, os: ['linux', 'darwin'] }).fieldChanges, []);
+        assert.equal(comparePackageJson({ ...base, os: ['linux'] }, { ...base, os: ['linux', 'darwin'] }).fieldChanges[0].significance, 'critical');
+        assert.equal(comparePackageJson({ ...base, cpu: ['x64', 'arm64'] }, { ...base, cpu: ['x64'] }).fieldChanges[0].significance, 'significant');
+      });
+
+      it('should honor negations in os and cpu', () => {
+        assert.equal(comparePackageJson({ ...base, os: ['!win32', '!aix'] }, { ...base, os: ['!win32'] }).fieldChanges[0].significance, 'critical');
+        assert.equal(comparePackageJson({ ...base, os: ['!win32'] }, { ...base, os: ['!win32', '!aix'] }).fieldChanges[0].significance, 'significant');
+        assert.equal(comparePackageJson({ ...base, os: ['linux'] }, { ...base, os: ['!win32'] }).fieldChanges[0].significance, 'critical');
+        assert.equal(comparePackageJson(base, { ...base, cpu: ['x64'] }).fieldChanges[0].significance, 'significant');
+      });
+    });
+
+    describe('resolution and bundler fields', () => {
+      const base: PackageJson = { name: 'test', version: '1.0.0' };
+
+      it('should compare imports per specifier', () => {
+        const result = comparePackageJson({ ...base, imports: { '#db': { node: './db-node.js', default: './db.js' } } }, { ...base, imports: { '#db': { default: './db.js', node: './db-node.js' } } });
+        assert.deepEqual(result.fieldChanges, [{ field: 'imports', subpath: '#db', conditions: ['node'], oldValue: './db.js', newValue: './db-node.js', significance: 'significant' }]);
+      });
+
+      it('should compare sideEffects as a set', () => {
+        assert.deepEqual(comparePackageJson({ ...base, sideEffects: ['*.css', './polyfill.js'] }, { ...base, sideEffects: ['./polyfill.js', '*.css'] }).fieldChanges, []);
+        assert.deepEqual(comparePackageJson({ ...base, sideEffects: [] }, { ...base, sideEffects: false }).fieldChanges, []);
+        assert.equal(comparePackageJson({ ...base, sideEffects: false }, { ...base, sideEffects: ['*.css'] }).hasSignificantChanges, true);
+      });
+
+      it('should compare typesVersions ranges semantically', () => {
+        const registry = { ...base, typesVersions: { '>=4.2': { '*': ['ts4.2/*'] } } };
+        assert.deepEqual(comparePackageJson({ ...base, typesVersions: { '>= 4.2.0': { '*': ['ts4.2/*'] } } }, registry).fieldChanges, []);
+        assert.equal(comparePackageJson({ ...base, typesVersions: { '>=4.5': { '*': ['ts4.2/*'] } } }, registry).hasSignificantChanges, true);
+        assert.equal(comparePackageJson({ ...base, typesVersions: { '^4.9': { '*': ['ts4/*'] } } }, { ...base, typesVersions: { '^4.2': { '*': ['ts4/*'] } } }).hasSignificantChanges, true);
+      });
+
+      it('should compare man pages and installed directories', () => {
+        assert.deepEqual(comparePackageJson({ ...base, man: ['./man/tool.1'] }, { ...base, man: './man/tool.1' }).fieldChanges, []);
+        assert.deepEqual(comparePackageJson({ ...base, directories: { bin: './bin', doc: './docs' } }, { ...base, directories: { bin: './bin' } }).fieldChanges, []);
+        assert.equal(comparePackageJson({ ...base, directories: { bin: './scripts' } }, { ...base, directories: { bin: './bin' } }).hasSignificantChanges, true);
+      });
+
+      it('should ignore workspaces', () => {
+        const result = comparePackageJson({ ...base, workspaces: ['packages/*', 'tools/*'] }, { ...base, workspaces: ['packages/*'] });
+        assert.equal(result.hasSignificantChanges, false);
+      });
+    });
+
+    describe('path normalization', () => {
+      const base: PackageJson = { name: 'test', version: '1.0.0' };
+
+      it('should ignore how entry point paths are spelled', () => {
+        const local: PackageJson = { ...base, main: 'dist/index.js', types: './dist//index.d.ts', bin: { cli: 'bin/../cli.js' }, exports: { '.': { import: './dist/./index.mjs' } } };
+        const registry: PackageJson = { ...base, main: './dist/index.js', types: 'dist/index.d.ts', bin: { cli: './cli.js' }, exports: { '.': { import: './dist/index.mjs' } } };
+        assert.deepEqual(comparePackageJson(local, registry).fieldChanges, []);
+      });
+
+      it('should normalize browser paths but not module names', () => {
+        assert.equal(comparePackageJson({ ...base, browser: { 'lib/node.js': './lib/browser.js', fs: false } }, { ...base, browser: { './lib/node.js': 'lib/browser.js', fs: false } }).fieldChanges.length, 1);
+        assert.deepEqual(comparePackageJson({ ...base, browser: { './lib/node.js': './lib/../lib/browser.js' } }, { ...base, browser: { './lib/node.js': './lib/browser.js' } }).fieldChanges, []);
+      });
+
+      it('should report the paths as published', () => {
+        const result = comparePackageJson({ ...base, main: 'lib/index.js' }, { ...base, main: './dist/index.js' });
+        assert.deepEqual(result.fieldChanges, [{ field: 'main', oldValue: './dist/index.js', newValue: 'lib/index.js', significance: 'critical' }]);
+      });
+    });
+
     describe('non-significant field changes', () => {
       it('should ignore scripts changes', () => {
         const local: PackageJson = {
@@ -245,6 +348,60 @@ describe('package-json', () => {
       });
     });
 
+    describe('publishConfig', () => {
+      it('should compare publishConfig entry points instead of the source ones', () => {
+        const local: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+          main: './src/index.ts',
+          publishConfig: { main: './dist/index.js', types: './dist/index.d.ts' },
+        };
+        const registry: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+          main: './dist/index.js',
+          types: './dist/index.d.ts',
+        };
+
+        const result = comparePackageJson(local, registry);
+        assert.equal(result.hasSignificantChanges, false);
+      });
+
+      it('should detect a changed publishConfig entry point', () => {
+        const local: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+          main: './src/index.ts',
+          publishConfig: { main: './dist/main.js' },
+        };
+        const registry: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+          main: './dist/index.js',
+        };
+
+        const result = comparePackageJson(local, registry);
+        assert.equal(result.hasSignificantChanges, true);
+        assert.equal(result.fieldChanges[0].field, 'main');
+        assert.equal(result.fieldChanges[0].newValue, './dist/main.js');
+      });
+
+      it('should ignore publish settings', () => {
+        const local: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+          publishConfig: { access: 'public', registry: 'https://npm.example.com/' },
+        };
+        const registry: PackageJson = {
+          name: 'test',
+          version: '1.0.0',
+        };
+
+        const result = comparePackageJson(local, registry);
+        assert.equal(result.fieldChanges.length, 0);
+      });
+    });
+
     describe('no changes', () => {
       it('should return no changes for identical package.json', () => {
         const local: PackageJson = {
@@ -1,5 +1,5 @@
 import assert from 'assert';
-import { compareVersionSpecifiers, comparisonToSemanticChange, parseVersionSpecifier } from 'npm-needs-publish';
+import { compareVersionSpecifiers, comparisonToSemanticChange, parseVersionSpecifier, resolveWorkspaceSpecifier } from 'npm-needs-publish';
 
 describe('version-specifier', () => {
   describe('parseVersionSpecifier', () => {
@@ -107,6 +107,13 @@ describe('version-specifier', () => {
         assert.equal(result.equivalent, false);
         assert.ok(['narrowed', 'widened', 'partially-overlapping'].includes(result.relation));
       });
+
+      it('should not treat a prerelease as inside a range without prereleases', () => {
+        assert.equal(compareVersionSpecifiers('^1.0.0', '1.1.0').relation, 'narrowed');
+        const result = compareVersionSpecifiers('^1.0.0', '1.1.0-beta.0');
+        assert.equal(result.equivalent, false);
+        assert.equal(result.relation, 'disjoint');
+      });
     });
 
     describe('npm update / ncu -u scenarios', () => {
@@ -223,6 +230,30 @@ describe('version-specifier', () => {
         const result = compareVersionSpecifiers('workspace:*', 'workspace:^');
         assert.equal(result.equivalent, false);
       });
+
+      it('should resolve workspace:^ against the local version', () => {
+        const result = compareVersionSpecifiers('^1.4.2', 'workspace:^', { workspaceVersion: '1.4.2' });
+        assert.equal(result.equivalent, true);
+      });
+
+      it('should resolve workspace:* to the exact local version', () => {
+        const result = compareVersionSpecifiers('1.4.2', 'workspace:*', { workspaceVersion: '1.4.2' });
+        assert.equal(result.equivalent, true);
+
+        const bumped = compareVersionSpecifiers('1.4.2', 'workspace:*', { workspaceVersion: '1.5.0' });
+        assert.equal(bumped.equivalent, false);
+      });
+
+      it('should compare explicit workspace ranges without a local version', () => {
+        const result = compareVersionSpecifiers('1.x', 'workspace:1.x');
+        assert.equal(result.equivalent, true);
+      });
+
+      it('should treat unresolved workspace:* vs a version as incompatible types', () => {
+        const result = compareVersionSpecifiers('1.4.2', 'workspace:*');
+        assert.equal(result.equivalent, false);
+        assert.equal(result.relation, 'incompatible-types');
+      });
     });
 
     describe('git specs', () => {
@@ -323,4 +354,72 @@ describe('version-specifier', () => {
       });
     });
   });
+
+  describe('catalog, patch, portal and link protocols', () => {
+    it('should parse catalog specifiers', () => {
+      assert.equal(parseVersionSpecifier('catalog:').type, 'catalog');
+      assert.equal(parseVersionSpecifier('catalog:').catalogName, 'default');
+      assert.equal(parseVersionSpecifier('catalog:react18').catalogName, 'react18');
+    });
+
+    it('should parse patch specifiers', () => {
+      const result = parseVersionSpecifier('patch:lodash@npm%3A4.17.21#./patches/lodash.patch::version=4.17.21');
+      assert.equal(result.type, 'patch');
+      assert.equal(result.patchInfo?.source, 'lodash@npm:4.17.21');
+      assert.equal(result.patchInfo?.range, '4.17.21');
+      assert.equal(result.patchInfo?.patchPath, './patches/lodash.patch');
+    });
+
+    it('should keep a malformed patch source as written', () => {
+      const result = parseVersionSpecifier('patch:lodash@100%#./patches/lodash.patch');
+      assert.equal(result.type, 'patch');
+      assert.equal(result.patchInfo?.source, 'lodash@100%');
+      assert.equal(compareVersionSpecifiers('patch:lodash@100%#./patches/lodash.patch', 'patch:lodash@100%#./patches/lodash.patch').equivalent, true);
+    });
+
+    it('should parse portal and link specifiers', () => {
+      assert.equal(parseVersionSpecifier('portal:../pkg').type, 'portal');
+      assert.equal(parseVersionSpecifier('link:../pkg').type, 'link');
+    });
+
+    it('should compare catalog specifiers using catalog entries', () => {
+      const catalogEntries = { default: '^18.2.0', react17: '^17.0.2' };
+      assert.equal(compareVersionSpecifiers('^18.0.0', 'catalog:', { catalogEntries }).equivalent, true);
+      assert.equal(compareVersionSpecifiers('^18.0.0', 'catalog:react17', { catalogEntries }).equivalent, false);
+    });
+
+    it('should treat the same catalog as identical', () => {
+      assert.equal(compareVersionSpecifiers('catalog:react18', 'catalog:react18').relation, 'identical');
+    });
+
+    it('should compare patched dependency ranges for the same patch file', () => {
+      assert.equal(compareVersionSpecifiers('patch:lodash@^4.17.0#./patches/lodash.patch', 'patch:lodash@^4.17.21#./patches/lodash.patch').equivalent, true);
+      assert.equal(compareVersionSpecifiers('patch:lodash@^4.17.0#./patches/lodash.patch', 'patch:lodash@^4.17.0#./patches/other.patch').equivalent, false);
+    });
+
+    it('should compare normalized local paths', () => {
+      assert.equal(compareVersionSpecifiers('link:../pkg', 'link:./../pkg').equivalent, true);
+      assert.equal(compareVersionSpecifiers('portal:../pkg', 'portal:../other').equivalent, false);
+    });
+  });
+
+  describe('resolveWorkspaceSpecifier', () => {
+    it('should resolve workspace:* to the exact version', () => {
+      assert.equal(resolveWorkspaceSpecifier('workspace:*', '1.4.2'), '1.4.2');
+    });
+
+    it('should resolve workspace:^ and workspace:~ to ranges on the version', () => {
+      assert.equal(resolveWorkspaceSpecifier('workspace:^', '1.4.2'), '^1.4.2');
+      assert.equal(resolveWorkspaceSpecifier('workspace:~', '1.4.2'), '~1.4.2');
+    });
+
+    it('should strip the protocol from explicit workspace ranges', () => {
+      assert.equal(resolveWorkspaceSpecifier('workspace:1.x', '1.4.2'), '1.x');
+      assert.equal(resolveWorkspaceSpecifier('workspace:^1.0.0', '1.4.2'), '^1.0.0');
+    });
+
+    it('should return non-workspace specifiers unchanged', () => {
+      assert.equal(resolveWorkspaceSpecifier('^2.0.0', '1.4.2'), '^2.0.0');
+    });
+  });
 });
@@ -0,0 +1,183 @@
+import assert from 'assert';
+import crypto from 'crypto';
+import fs from 'fs';
+import { findWorkspacePackages, needsPublishWorkspaces, readCatalogs, writeCachedPackument, writeCachedTarball } from 'npm-needs-publish';
+import path from 'path';
+import * as tar from 'tar';
+import { cleanupTempDir, createTempDir } from '../lib/test-helpers.ts';
+
+function writePackage(dir: string, pkg: Record<string, unknown>): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify(pkg, null, 2));
+}
+
+describe('workspaces', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir('workspaces-');
+  });
+
+  afterEach(() => {
+    cleanupTempDir(tempDir);
+  });
+
+  describe('findWorkspacePackages', () => {
+    it('should find packages from package.json workspaces globs', async () => {
+      writePackage(tempDir, { name: 'root', private: true, workspaces: ['packages/*'] });
+      writePackage(path.join(tempDir, 'packages', 'b'), { name: 'pkg-b', version: '1.0.0' });
+      writePackage(path.join(tempDir, 'packages', 'a'), { name: 'pkg-a', version: '2.0.0' });
+
+      const packages = await findWorkspacePackages(tempDir);
+      assert.deepEqual(
+        packages.map((p) => p.name),
+        ['pkg-a', 'pkg-b']
+      );
+      assert.equal(packages[0].package.version, '2.0.0');
+      assert.equal(packages[0].path, path.join(tempDir, 'packages', 'a'));
+    });
+
+    it('should support the object form of workspaces', async () => {
+      writePackage(tempDir, { name: 'root', private: true, workspaces: { packages: ['libs/*'] } });
+      writePackage(path.join(tempDir, 'libs', 'one'), { name: 'lib-one', version: '1.0.0' });
+
+      const packages = await findWorkspacePackages(tempDir);
+      assert.deepEqual(
+        packages.map((p) => p.name),
+        ['lib-one']
+      );
+    });
+
+    it('should find packages from pnpm-workspace.yaml', async () => {
+      writePackage(tempDir, { name: 'root', private: true });
+      fs.writeFileSync(path.join(tempDir, 'pnpm-workspace.yaml'), "packages:\n  - 'packages/*'\n  - '!packages/ignored'\n");
+      writePackage(path.join(tempDir, 'packages', 'a'), { name: 'pkg-a', version: '1.0.0' });
+      writePackage(path.join(tempDir, 'packages', 'ignored'), { name: 'pkg-ignored', version: '1.0.0' });
+
+      const packages = await findWorkspacePackages(tempDir);
+      assert.deepEqual(
+        packages.map((p) => p.name),
+        ['pkg-a']
+      );
+    });
+
+    it('should return no packages outside a workspace root', async () => {
+      writePackage(tempDir, { name: 'single', version: '1.0.0' });
+
+      const packages = await findWorkspacePackages(tempDir);
+      assert.equal(packages.length, 0);
+    });
+  });
+
+  describe('readCatalogs', () => {
+    it('should read the default and named catalogs from pnpm-workspace.yaml', () => {
+      fs.writeFileSync(path.join(tempDir, 'pnpm-workspace.yaml'), 'catalog:\n  lodash: ^4.17.21\ncatalogs:\n  react18:\n    react: ^18.2.0\n');
+
+      assert.deepEqual(readCatalogs(tempDir), { default: { lodash: '^4.17.21' }, react18: { react: '^18.2.0' } });
+    });
+
+    it('should return no catalogs without pnpm-workspace.yaml', () => {
+      assert.deepEqual(readCatalogs(tempDir), {});
+    });
+  });
+
+  describe('needsPublishWorkspaces', () => {
+    it('should skip private packages', async () => {
+      writePackage(tempDir, { name: 'root', private: true, workspaces: ['packages/*'] });
+      writePackage(path.join(tempDir, 'packages', 'a'), { name: 'pkg-a', version: '1.0.0', private: true });
+
+      const results = await needsPublishWorkspaces({ cwd: tempDir });
+      assert.equal(results.length, 0);
+    });
+
+    it('should check every non-private package', async () => {
+      const name = `@test-npm-needs-publish/workspace-test-${Date.now()}`;
+      writePackage(tempDir, { name: 'root', private: true, workspaces: ['packages/*'] });
+      writePackage(path.join(tempDir, 'packages', 'a'), { name, version: '1.0.0' });
+      writePackage(path.join(tempDir, 'packages', 'b'), { name: 'pkg-b', version: '1.0.0', private: true });
+
+      const results = await needsPublishWorkspaces({ cwd: tempDir });
+      assert.equal(results.length, 1);
+      assert.equal(results[0].name, name);
+      assert.equal(results[0].version, '1.0.0');
+      assert.equal(results[0].result.needsPublish, true);
+    });
+
+    it('should order dependencies first and cascade to dependents outside the declared range', async () => {
+      const suffix = Date.now();
+      const upstream = `@test-npm-needs-publish/z-upstream-${suffix}`;
+      const exact = `@test-npm-needs-publish/a-exact-${suffix}`;
+      const caret = `@test-npm-needs-publish/b-caret-${suffix}`;
+      writePackage(tempDir, { name: 'root', private: true, workspaces: ['packages/*'] });
+      writePackage(path.join(tempDir, 'packages', 'upstream'), { name: upstream, version: '2.0.0' });
+      writePackage(path.join(tempDir, 'packages', 'exact'), { name: exact, version: '1.0.0', dependencies: { [upstream]: '1.0.0' } });
+      writePackage(path.join(tempDir, 'packages', 'caret'), { name: caret, version: '1.0.0', dependencies: { [upstream]: 'workspace:^' } });
+
+      const results = await needsPublishWorkspaces({ cwd: tempDir });
+      assert.deepEqual(
+        results.map((r) => r.name),
+        [upstream, exact, caret]
+      );
+
+      const exactChanges = results[1].result.changes || [];
+      const dependent = exactChanges.filter((c) => c.type === 'dependent');
+      assert.equal(dependent.length, 1);
+      assert.equal(dependent[0].field, `dependencies.${upstream}`);
+      assert.equal(dependent[0].oldValue, '1.0.0');
+      assert.equal(dependent[0].newValue, '2.0.0');
+
+      const caretChanges = results[2].result.changes || [];
+      assert.equal(caretChanges.filter((c) => c.type === 'dependent').length, 0);
+    });
+
+    it('should block an unchanged dependent whose range excludes an upstream prerelease', async () => {
+      const registry = 'http://registry.test/';
+      const cacheDir = path.join(tempDir, '.cache');
+      const upstream = { name: '@test-npm-needs-publish/upstream', version: '1.0.0' };
+      const dependent = { name: '@test-npm-needs-publish/dependent', version: '1.0.0', dependencies: { [upstream.name]: '^1.0.0' } };
+      writePackage(tempDir, { name: 'root', private: true, workspaces: ['packages/*'] });
+      writePackage(path.join(tempDir, 'packages', 'upstream'), { ...upstream, version: '1.1.0-beta.0' });
+      writePackage(path.join(tempDir, 'packages', 'dependent'), dependent);
+
+      // Publish the dependent exactly as it is locally
+      const tarballPath = path.join(tempDir, 'dependent.tgz');
+      await tar.c({ gzip: true, cwd: path.join(tempDir, 'packages', 'dependent'), prefix: 'package', file: tarballPath }, ['package.json']);
+      const tarball = fs.readFileSync(tarballPath);
+      const integrity = `sha512-${crypto.createHash('sha512').update(tarball).digest('base64')}`;
+      writeCachedTarball(cacheDir, integrity, tarball);
+      writeCachedPackument(cacheDir, registry, upstream.name, { name: upstream.name, 'dist-tags': { latest: '1.0.0' }, versions: { '1.0.0': upstream } });
+      writeCachedPackument(cacheDir, registry, dependent.name, { name: dependent.name, 'dist-tags': { latest: '1.0.0' }, versions: { '1.0.0': { ...dependent, dist: { tarball: `${registry}dependent.tgz`, integrity } } } });
+
+      const results = await needsPublishWorkspaces({ cwd: tempDir, npmConfig: { registry }, cacheDir, offline: true });
+      assert.deepEqual(
+        results.map((r) => r.name),
+        [upstream.name, dependent.name]
+      );
+      assert.equal(results[0].result.needsPublish, true);
+
+      const result = results[1].result;
+      assert.equal(result.needsPublish, true);
+      assert.equal(result.blocked, 'version-exists');
+      assert.equal(result.recommendedBump, 'patch');
+      assert.ok(result.reason.includes(`${upstream.name}@1.1.0-beta.0`), result.reason);
+      const changes = result.changes || [];
+      assert.equal(changes.length, 1);
+      assert.equal(changes[0].type, 'dependent');
+      assert.equal(changes[0].oldValue, '^1.0.0');
+      assert.equal(changes[0].newValue, '1.1.0-beta.0');
+    });
+
+    it('should reject a compare version', async () => {
+      writePackage(tempDir, { name: 'root', private: true, workspaces: ['packages/*'] });
+      writePackage(path.join(tempDir, 'packages', 'a'), { name: 'pkg-a', version: '1.0.0' });
+
+      await assert.rejects(() => needsPublishWorkspaces({ cwd: tempDir, compareVersion: '1.0.0' }), /compare version cannot be used in workspaces mode/);
+    });
+
+    it('should fail when no workspace packages are found', async () => {
+      writePackage(tempDir, { name: 'single', version: '1.0.0' });
+
+      await assert.rejects(() => needsPublishWorkspaces({ cwd: tempDir }), /No workspace packages found/);
+    });
+  });
+});